@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "feed_reactions" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
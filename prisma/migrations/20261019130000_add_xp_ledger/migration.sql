@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "xp_ledger" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "sourceType" TEXT,
+    "sourceId" TEXT,
+    "xpDelta" INTEGER NOT NULL DEFAULT 0,
+    "starsDelta" INTEGER NOT NULL DEFAULT 0,
+    "xpBalance" INTEGER NOT NULL,
+    "starsBalance" INTEGER NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "xp_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "xp_ledger_userId_createdAt_idx" ON "xp_ledger"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "xp_ledger_sourceType_sourceId_idx" ON "xp_ledger"("sourceType", "sourceId");
+
+-- AddForeignKey
+ALTER TABLE "xp_ledger" ADD CONSTRAINT "xp_ledger_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Opening balance so existing User.xp/estrelas can be rebuilt from the ledger
+INSERT INTO "xp_ledger" ("id", "userId", "action", "xpDelta", "starsDelta", "xpBalance", "starsBalance")
+SELECT 'opening_' || "id", "id", 'saldo_inicial', "xp", "estrelas", "xp", "estrelas"
+FROM "users"
+WHERE "xp" <> 0 OR "estrelas" <> 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "xp_ledger" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "xp_ledger_idempotencyKey_key" ON "xp_ledger"("idempotencyKey");
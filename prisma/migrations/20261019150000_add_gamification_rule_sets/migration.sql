@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "gamification_rule_sets" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gamification_rule_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gamification_rule_sets_version_key" ON "gamification_rule_sets"("version");
+
+-- CreateIndex
+CREATE INDEX "gamification_rule_sets_isActive_idx" ON "gamification_rule_sets"("isActive");
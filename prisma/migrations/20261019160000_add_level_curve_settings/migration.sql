@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "level_curve_settings" (
+    "id" TEXT NOT NULL DEFAULT 'singleton',
+    "mode" TEXT NOT NULL DEFAULT 'thresholds',
+    "thresholds" INTEGER[],
+    "baseXp" INTEGER NOT NULL DEFAULT 500,
+    "exponent" DOUBLE PRECISION NOT NULL DEFAULT 1.5,
+    "maxLevel" INTEGER,
+    "titles" JSONB NOT NULL DEFAULT '[]',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "level_curve_settings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "rewards" ADD COLUMN     "limitePorPeriodo" INTEGER,
+ADD COLUMN     "limitePorUsuario" INTEGER,
+ADD COLUMN     "periodoLimite" "PeriodoMeta",
+ADD COLUMN     "resgatados" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "reward_redemptions_userId_rewardId_redeemedAt_idx" ON "reward_redemptions"("userId", "rewardId", "redeemedAt");
+
+-- Backfill the stock counter from existing redemptions
+UPDATE "rewards" r
+SET "resgatados" = (
+    SELECT COUNT(*) FROM "reward_redemptions" rr
+    WHERE rr."rewardId" = r."id" AND rr."status" <> 'rejected'
+);
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "RedemptionStatus" AS ENUM ('pending', 'approved', 'delivered', 'rejected');
+
+-- AlterTable
+ALTER TABLE "reward_redemptions" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "reward_redemptions" ALTER COLUMN "status" TYPE "RedemptionStatus" USING ("status"::"RedemptionStatus");
+ALTER TABLE "reward_redemptions" ALTER COLUMN "status" SET DEFAULT 'pending';
+ALTER TABLE "reward_redemptions" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "rejectionReason" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ADD COLUMN     "trackingNote" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "reward_redemptions_status_redeemedAt_idx" ON "reward_redemptions"("status", "redeemedAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "rewards" ADD COLUMN     "cargos" TEXT[],
+ADD COLUMN     "departamentos" TEXT[],
+ADD COLUMN     "disponivelAte" TIMESTAMP(3),
+ADD COLUMN     "disponivelDe" TIMESTAMP(3),
+ADD COLUMN     "nivelMinimo" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "rewards_isActive_category_idx" ON "rewards"("isActive", "category");
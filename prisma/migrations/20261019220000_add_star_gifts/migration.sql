@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "star_gifts" (
+    "id" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "feedbackId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "star_gifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "star_gift_settings" (
+    "id" TEXT NOT NULL DEFAULT 'singleton',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "maxStarsPerGift" INTEGER NOT NULL DEFAULT 5,
+    "maxStarsPerDay" INTEGER NOT NULL DEFAULT 10,
+    "maxStarsPerRecipient" INTEGER NOT NULL DEFAULT 20,
+    "maxReciprocalStars" INTEGER NOT NULL DEFAULT 10,
+    "windowDays" INTEGER NOT NULL DEFAULT 30,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "star_gift_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "star_gifts_feedbackId_key" ON "star_gifts"("feedbackId");
+
+-- CreateIndex
+CREATE INDEX "star_gifts_fromUserId_createdAt_idx" ON "star_gifts"("fromUserId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "star_gifts_fromUserId_toUserId_createdAt_idx" ON "star_gifts"("fromUserId", "toUserId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "star_gifts" ADD CONSTRAINT "star_gifts_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "star_gifts" ADD CONSTRAINT "star_gifts_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "star_gifts" ADD CONSTRAINT "star_gifts_feedbackId_fkey" FOREIGN KEY ("feedbackId") REFERENCES "feedbacks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
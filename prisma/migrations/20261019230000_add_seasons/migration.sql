@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "SeasonStatus" AS ENUM ('scheduled', 'active', 'closed');
+
+-- CreateTable
+CREATE TABLE "seasons" (
+    "id" TEXT NOT NULL,
+    "nome" TEXT NOT NULL,
+    "descricao" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "publicoAlvoType" "PublicoAlvoType" NOT NULL DEFAULT 'todo_time',
+    "targetIds" TEXT[],
+    "prizes" JSONB NOT NULL DEFAULT '[]',
+    "status" "SeasonStatus" NOT NULL DEFAULT 'scheduled',
+    "closedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "season_standings" (
+    "id" TEXT NOT NULL,
+    "seasonId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "xp" INTEGER NOT NULL,
+    "prizeStars" INTEGER NOT NULL DEFAULT 0,
+    "prizeRewardId" TEXT,
+    "redemptionId" TEXT,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "season_standings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "seasons_status_endsAt_idx" ON "seasons"("status", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "season_standings_seasonId_rank_idx" ON "season_standings"("seasonId", "rank");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "season_standings_seasonId_userId_key" ON "season_standings"("seasonId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "season_standings" ADD CONSTRAINT "season_standings_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "season_standings" ADD CONSTRAINT "season_standings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
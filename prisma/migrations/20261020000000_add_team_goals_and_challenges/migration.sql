@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "ChallengeType" AS ENUM ('times', 'departamentos');
+
+-- CreateEnum
+CREATE TYPE "ChallengeStatus" AS ENUM ('scheduled', 'active', 'closed');
+
+-- CreateEnum
+CREATE TYPE "ChallengeScoring" AS ENUM ('total', 'media');
+
+-- CreateTable
+CREATE TABLE "team_goal_progress" (
+    "id" TEXT NOT NULL,
+    "goalId" TEXT NOT NULL,
+    "gestorId" TEXT NOT NULL,
+    "progresso" INTEGER NOT NULL DEFAULT 0,
+    "concluida" BOOLEAN NOT NULL DEFAULT false,
+    "dataInicio" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dataConclusao" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "team_goal_progress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "team_goal_criterio_progress" (
+    "id" TEXT NOT NULL,
+    "progressId" TEXT NOT NULL,
+    "criterioId" TEXT NOT NULL,
+    "valorAtual" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "team_goal_criterio_progress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "challenges" (
+    "id" TEXT NOT NULL,
+    "nome" TEXT NOT NULL,
+    "descricao" TEXT,
+    "tipo" "ChallengeType" NOT NULL,
+    "scoring" "ChallengeScoring" NOT NULL DEFAULT 'media',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "rewardXP" INTEGER NOT NULL DEFAULT 0,
+    "rewardStars" INTEGER NOT NULL DEFAULT 0,
+    "status" "ChallengeStatus" NOT NULL DEFAULT 'scheduled',
+    "winnerIds" TEXT[],
+    "finalScores" JSONB,
+    "closedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "challenge_participants" (
+    "id" TEXT NOT NULL,
+    "challengeId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+
+    CONSTRAINT "challenge_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "team_goal_progress_gestorId_idx" ON "team_goal_progress"("gestorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_goal_progress_goalId_gestorId_key" ON "team_goal_progress"("goalId", "gestorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_goal_criterio_progress_progressId_criterioId_key" ON "team_goal_criterio_progress"("progressId", "criterioId");
+
+-- CreateIndex
+CREATE INDEX "challenges_status_endsAt_idx" ON "challenges"("status", "endsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "challenge_participants_challengeId_targetId_key" ON "challenge_participants"("challengeId", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "team_goal_progress" ADD CONSTRAINT "team_goal_progress_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "goals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_goal_progress" ADD CONSTRAINT "team_goal_progress_gestorId_fkey" FOREIGN KEY ("gestorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_goal_criterio_progress" ADD CONSTRAINT "team_goal_criterio_progress_progressId_fkey" FOREIGN KEY ("progressId") REFERENCES "team_goal_progress"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_goal_criterio_progress" ADD CONSTRAINT "team_goal_criterio_progress_criterioId_fkey" FOREIGN KEY ("criterioId") REFERENCES "goal_criterios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "challenge_participants" ADD CONSTRAINT "challenge_participants_challengeId_fkey" FOREIGN KEY ("challengeId") REFERENCES "challenges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "feed_comments" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "feed_comment_edits" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "previousContent" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "feed_comment_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "feed_comment_reactions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "ReactionType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "feed_comment_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "feed_comments_postId_parentId_createdAt_idx" ON "feed_comments"("postId", "parentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "feed_comment_edits_commentId_createdAt_idx" ON "feed_comment_edits"("commentId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "feed_comment_reactions_commentId_userId_type_key" ON "feed_comment_reactions"("commentId", "userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "feed_comments" ADD CONSTRAINT "feed_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "feed_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "feed_comment_edits" ADD CONSTRAINT "feed_comment_edits_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "feed_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "feed_comment_reactions" ADD CONSTRAINT "feed_comment_reactions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "feed_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "feed_comment_reactions" ADD CONSTRAINT "feed_comment_reactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
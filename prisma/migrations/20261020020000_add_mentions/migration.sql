@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "MentionSourceType" AS ENUM ('feed_post', 'feed_comment', 'feedback');
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "mencoes" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "mentions" (
+    "id" TEXT NOT NULL,
+    "sourceType" "MentionSourceType" NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "mentionedUserId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mentions_sourceType_sourceId_mentionedUserId_key" ON "mentions"("sourceType", "sourceId", "mentionedUserId");
+
+-- CreateIndex
+CREATE INDEX "mentions_mentionedUserId_createdAt_idx" ON "mentions"("mentionedUserId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_mentionedUserId_fkey" FOREIGN KEY ("mentionedUserId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "AttachmentKind" AS ENUM ('image', 'video', 'document');
+
+-- AlterTable
+ALTER TABLE "feed_posts" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "linkPreview" JSONB;
+
+-- CreateTable
+CREATE TABLE "feed_attachments" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT,
+    "uploaderId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "kind" "AttachmentKind" NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "feed_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "feed_attachments_key_key" ON "feed_attachments"("key");
+
+-- CreateIndex
+CREATE INDEX "feed_attachments_postId_position_idx" ON "feed_attachments"("postId", "position");
+
+-- CreateIndex
+CREATE INDEX "feed_attachments_uploaderId_createdAt_idx" ON "feed_attachments"("uploaderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "feed_attachments" ADD CONSTRAINT "feed_attachments_postId_fkey" FOREIGN KEY ("postId") REFERENCES "feed_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "feed_attachments" ADD CONSTRAINT "feed_attachments_uploaderId_fkey" FOREIGN KEY ("uploaderId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
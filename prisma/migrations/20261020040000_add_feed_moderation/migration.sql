@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "HiddenReason" AS ENUM ('denuncias', 'palavras_proibidas', 'moderacao');
+
+-- CreateEnum
+CREATE TYPE "ReportTargetType" AS ENUM ('feed_post', 'feed_comment');
+
+-- CreateEnum
+CREATE TYPE "ReportReason" AS ENUM ('spam', 'ofensivo', 'assedio', 'desinformacao', 'inapropriado', 'outro');
+
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('pendente', 'resolvida', 'descartada');
+
+-- CreateEnum
+CREATE TYPE "BannedWordAction" AS ENUM ('rejeitar', 'ocultar');
+
+-- AlterTable
+ALTER TABLE "feed_posts" ADD COLUMN     "hiddenAt" TIMESTAMP(3),
+ADD COLUMN     "hiddenReason" "HiddenReason";
+
+-- AlterTable
+ALTER TABLE "feed_comments" ADD COLUMN     "hiddenAt" TIMESTAMP(3),
+ADD COLUMN     "hiddenReason" "HiddenReason";
+
+-- CreateTable
+CREATE TABLE "content_reports" (
+    "id" TEXT NOT NULL,
+    "targetType" "ReportTargetType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" "ReportReason" NOT NULL,
+    "details" TEXT,
+    "status" "ReportStatus" NOT NULL DEFAULT 'pendente',
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "moderation_settings" (
+    "id" TEXT NOT NULL DEFAULT 'singleton',
+    "autoHideThreshold" INTEGER NOT NULL DEFAULT 3,
+    "bannedWords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "bannedWordAction" "BannedWordAction" NOT NULL DEFAULT 'rejeitar',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "moderation_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_reports_targetType_targetId_reporterId_key" ON "content_reports"("targetType", "targetId", "reporterId");
+
+-- CreateIndex
+CREATE INDEX "content_reports_status_createdAt_idx" ON "content_reports"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "content_reports_targetType_targetId_idx" ON "content_reports"("targetType", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "content_reports" ADD CONSTRAINT "content_reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
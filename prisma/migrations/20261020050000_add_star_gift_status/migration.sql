@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "StarGiftStatus" AS ENUM ('held', 'credited', 'reversed');
+
+-- AlterTable
+ALTER TABLE "star_gifts" ADD COLUMN     "status" "StarGiftStatus" NOT NULL DEFAULT 'held',
+ADD COLUMN     "settledAt" TIMESTAMP(3);
+
+-- Gifts made before escrow were credited to the recipient immediately
+UPDATE "star_gifts" SET "status" = 'credited', "settledAt" = "createdAt";
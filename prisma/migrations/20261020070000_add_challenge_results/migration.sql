@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "challenge_results" (
+    "id" TEXT NOT NULL,
+    "challengeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "won" BOOLEAN NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "challenge_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "challenge_results_notifiedAt_idx" ON "challenge_results"("notifiedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "challenge_results_challengeId_userId_key" ON "challenge_results"("challengeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "challenge_results" ADD CONSTRAINT "challenge_results_challengeId_fkey" FOREIGN KEY ("challengeId") REFERENCES "challenges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "challenge_results" ADD CONSTRAINT "challenge_results_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
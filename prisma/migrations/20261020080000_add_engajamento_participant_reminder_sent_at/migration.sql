@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "engajamento_participants" ADD COLUMN "reminderSentAt" TIMESTAMP(3);
+
+-- Backfill participants already reminded through a notification
+UPDATE "engajamento_participants" p
+SET "reminderSentAt" = n."createdAt"
+FROM (
+    SELECT "userId", "data"->>'reminderFor' AS "engajamentoId", MIN("createdAt") AS "createdAt"
+    FROM "notifications"
+    WHERE "type" = 'system' AND "data" ? 'reminderFor'
+    GROUP BY "userId", "data"->>'reminderFor'
+) n
+WHERE p."userId" = n."userId" AND p."engajamentoId" = n."engajamentoId";
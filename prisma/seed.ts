@@ -97,6 +97,24 @@ async function main() {
   }
   console.log(`✅ Created/updated ${usersData.length} users`)
 
+  // ─── XP Ledger opening balances ───────────────────────────────────────────
+  for (const userData of usersData) {
+    await prisma.xpLedgerEntry.upsert({
+      where: { id: `opening_${userData.id}` },
+      create: {
+        id: `opening_${userData.id}`,
+        userId: userData.id,
+        action: 'saldo_inicial',
+        xpDelta: userData.xp,
+        starsDelta: userData.estrelas,
+        xpBalance: userData.xp,
+        starsBalance: userData.estrelas,
+      },
+      update: {},
+    })
+  }
+  console.log('✅ XP ledger opening balances created')
+
   // ─── Feedback Settings ────────────────────────────────────────────────────
   await prisma.feedbackSettings.upsert({
     where: { id: 'singleton' },
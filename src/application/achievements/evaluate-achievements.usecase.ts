@@ -0,0 +1,110 @@
+import { Prisma, type AchievementRule, type UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { awardXpUseCase } from '../gamification/award-xp.usecase.js'
+
+/**
+ * Current value of an achievement rule metric for a user (compared against threshold).
+ */
+export async function getAchievementMetric(userId: string, rule: AchievementRule): Promise<number> {
+  switch (rule) {
+    case 'feedbacks_recebidos':
+      return prisma.feedback.count({ where: { toUserId: userId, status: 'aprovado' } })
+    case 'feedbacks_enviados':
+      return prisma.feedback.count({ where: { fromUserId: userId } })
+    case 'sequencia_acesso': {
+      const tracking = await prisma.engagementTracking.findUnique({
+        where: { userId },
+        select: { consecutiveStreak: true },
+      })
+      return tracking?.consecutiveStreak ?? 0
+    }
+    case 'treinamentos_concluidos': {
+      const [trainings, courses] = await Promise.all([
+        prisma.trainingProgress.count({ where: { userId, completedAt: { not: null } } }),
+        prisma.courseProgress.count({ where: { userId, completedAt: { not: null } } }),
+      ])
+      return trainings + courses
+    }
+    case 'treinamento_nota_maxima':
+      return prisma.trainingProgress.count({ where: { userId, completedAt: { not: null }, score: { gte: 100 } } })
+    case 'posts_publicados':
+      return prisma.feedPost.count({ where: { userId, deletedAt: null } })
+    case 'pesquisas_respondidas':
+      return prisma.surveyResponse.count({ where: { userId } })
+    case 'eventos_participados':
+      return prisma.eventParticipation.count({ where: { userId, attended: true } })
+    case 'humor_registrado':
+      return prisma.moodEntry.count({ where: { userId } })
+    case 'missoes_concluidas':
+      return prisma.dailyMissionCompletion.count({ where: { userId } })
+    case 'engajamentos_concluidos':
+      return prisma.engajamentoParticipant.count({ where: { userId, status: 'completed' } })
+    case 'nivel_alcancado':
+    case 'xp_total': {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { nivel: true, xp: true } })
+      if (!user) return 0
+      return rule === 'nivel_alcancado' ? user.nivel : user.xp
+    }
+    default:
+      return 0
+  }
+}
+
+/**
+ * Unlock every active achievement whose rule the user now satisfies.
+ * Triggered by the gamification worker after each award; bonus XP/stars go back
+ * through the queue, so the next pass sees the updated xp/nivel.
+ */
+export async function evaluateAchievementsUseCase(input: { userId: string; userRole: UserRole }) {
+  const pending = await prisma.achievement.findMany({
+    where: { isActive: true, unlocks: { none: { userId: input.userId } } },
+  })
+  if (pending.length === 0) return []
+
+  const metrics = new Map<AchievementRule, number>()
+  const unlocked = []
+
+  for (const achievement of pending) {
+    let value = metrics.get(achievement.rule)
+    if (value === undefined) {
+      value = await getAchievementMetric(input.userId, achievement.rule)
+      metrics.set(achievement.rule, value)
+    }
+    if (value < achievement.threshold) continue
+
+    try {
+      await prisma.userAchievement.create({
+        data: { userId: input.userId, achievementId: achievement.id },
+      })
+    } catch (err) {
+      // Unlocked concurrently by another job for the same user
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') continue
+      throw err
+    }
+
+    await enqueueNotification({
+      userId: input.userId,
+      type: 'achievement',
+      title: 'Conquista desbloqueada!',
+      message: `Você desbloqueou "${achievement.nome}"`,
+      data: { achievementId: achievement.id, icon: achievement.icon },
+    })
+
+    if (achievement.rewardXP > 0 || achievement.rewardStars > 0) {
+      await awardXpUseCase({
+        userId: input.userId,
+        userRole: input.userRole,
+        action: 'conquista_desbloqueada',
+        xp: achievement.rewardXP,
+        stars: achievement.rewardStars,
+        source: { type: 'achievement', id: achievement.id },
+        context: { achievementId: achievement.id },
+      })
+    }
+
+    unlocked.push(achievement)
+  }
+
+  return unlocked
+}
@@ -0,0 +1,85 @@
+import type { PublicoAlvoType, UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { NotFoundError } from '../../shared/errors/app-error.js'
+
+/**
+ * Audience definition shared by trainings, surveys, engajamentos and daily missions.
+ * targetIds holds user ids (colaboradores_especificos) or departamento names (por_departamento).
+ */
+export interface AudienceDefinition {
+  type: PublicoAlvoType
+  targetIds: string[]
+}
+
+export interface AudienceMember {
+  id: string
+  role: UserRole
+  departamento: string
+}
+
+export async function getAudienceMember(userId: string): Promise<AudienceMember> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, role: true, departamento: true },
+  })
+  if (!user) throw new NotFoundError('User', userId)
+  return user
+}
+
+/**
+ * Gestores and super_admins manage content, so audience rules only restrict colaboradores.
+ */
+export function isAudienceRestricted(member: AudienceMember): boolean {
+  return member.role === 'colaborador'
+}
+
+export function isInAudience(audience: AudienceDefinition, member: AudienceMember): boolean {
+  if (!isAudienceRestricted(member)) return true
+  switch (audience.type) {
+    case 'todo_time':
+      return true
+    case 'colaboradores_especificos':
+      return audience.targetIds.includes(member.id)
+    case 'por_departamento':
+      return audience.targetIds.includes(member.departamento)
+    default:
+      return false
+  }
+}
+
+/**
+ * Prisma where fragment matching rows whose audience includes the member.
+ * `typeField`/`idsField` name the model columns (e.g. audienceType/audienceIds).
+ */
+export function buildAudienceWhere(
+  typeField: string,
+  idsField: string,
+  member: AudienceMember,
+): Record<string, unknown> {
+  if (!isAudienceRestricted(member)) return {}
+  return {
+    OR: [
+      { [typeField]: 'todo_time' },
+      { [typeField]: 'colaboradores_especificos', [idsField]: { has: member.id } },
+      { [typeField]: 'por_departamento', [idsField]: { has: member.departamento } },
+    ],
+  }
+}
+
+/**
+ * Active users an audience definition resolves to (colaboradores by default).
+ */
+export async function resolveAudienceUsers(
+  audience: AudienceDefinition,
+  roles: UserRole[] = ['colaborador'],
+) {
+  const where: Record<string, unknown> = { isActive: true, role: { in: roles } }
+  if (audience.type === 'colaboradores_especificos') where.id = { in: audience.targetIds }
+  if (audience.type === 'por_departamento') where.departamento = { in: audience.targetIds }
+
+  return prisma.user.findMany({
+    where,
+    select: { id: true, nome: true, email: true, cargo: true, departamento: true, role: true, avatar: true },
+    orderBy: { nome: 'asc' },
+  })
+}
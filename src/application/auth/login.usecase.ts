@@ -5,6 +5,7 @@ import { prisma } from '../../infrastructure/database/prisma.client.js'
 import { comparePassword } from '../../shared/utils/password.js'
 import { UnauthorizedError } from '../../shared/errors/app-error.js'
 import { env } from '../../config/env.js'
+import { registerDailyAccessUseCase } from '../gamification/register-daily-access.usecase.js'
 
 export const LoginSchema = z.object({
   email: z.string().email(),
@@ -32,6 +33,7 @@ export interface LoginOutput {
     telefone: string | null
     localizacao: string | null
     hiredAt: Date | null
+    timezone: string | null
     createdAt: Date
   }
 }
@@ -73,6 +75,7 @@ export async function loginUseCase(
     email: user.email,
     role: user.role,
     nome: user.nome,
+    timezone: user.timezone,
   })
 
   // Generate refresh token (opaque)
@@ -87,6 +90,12 @@ export async function loginUseCase(
     },
   })
 
+  try {
+    await registerDailyAccessUseCase(user)
+  } catch (err) {
+    console.warn(`[DailyAccess] Failed to register access for ${user.id}:`, (err as Error).message)
+  }
+
   return {
     accessToken,
     refreshToken: refreshTokenValue,
@@ -106,6 +115,7 @@ export async function loginUseCase(
       telefone: user.telefone,
       localizacao: user.localizacao,
       hiredAt: user.hiredAt,
+      timezone: user.timezone,
       createdAt: user.createdAt,
     },
   }
@@ -3,6 +3,7 @@ import type { FastifyInstance } from 'fastify'
 import { prisma } from '../../infrastructure/database/prisma.client.js'
 import { UnauthorizedError } from '../../shared/errors/app-error.js'
 import { env } from '../../config/env.js'
+import { registerDailyAccessUseCase } from '../gamification/register-daily-access.usecase.js'
 
 function parseDurationToMs(duration: string): number {
   const match = duration.match(/^(\d+)([smhd])$/)
@@ -44,6 +45,7 @@ export async function refreshTokenUseCase(
     email: existing.user.email,
     role: existing.user.role,
     nome: existing.user.nome,
+    timezone: existing.user.timezone,
   })
 
   // New refresh token
@@ -58,5 +60,11 @@ export async function refreshTokenUseCase(
     },
   })
 
+  try {
+    await registerDailyAccessUseCase(existing.user)
+  } catch (err) {
+    console.warn(`[DailyAccess] Failed to register access for ${existing.userId}:`, (err as Error).message)
+  }
+
   return { accessToken, refreshToken: newRefreshToken }
 }
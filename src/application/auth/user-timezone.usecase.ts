@@ -0,0 +1,31 @@
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { redis, USER_TIMEZONE_PREFIX, USER_TIMEZONE_TTL } from '../../infrastructure/cache/redis.client.js'
+
+/**
+ * Store the user's timezone in the cache ("" when unset, so the fallback is cached too).
+ */
+export async function cacheUserTimezone(userId: string, timezone: string | null): Promise<void> {
+  try {
+    await redis.set(`${USER_TIMEZONE_PREFIX}${userId}`, timezone ?? '', 'EX', USER_TIMEZONE_TTL)
+  } catch {
+    // Redis unavailable, next read goes to the database
+  }
+}
+
+/**
+ * Current User.timezone: Redis cache, then the database. The access token's copy is only
+ * refreshed with the token, while "today" must match what the workers use.
+ */
+export async function getUserTimezone(userId: string): Promise<string | null> {
+  try {
+    const cached = await redis.get(`${USER_TIMEZONE_PREFIX}${userId}`)
+    if (cached !== null) return cached || null
+  } catch {
+    // Redis unavailable, fall through to the database
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } })
+  const timezone = user?.timezone ?? null
+  await cacheUserTimezone(userId, timezone)
+  return timezone
+}
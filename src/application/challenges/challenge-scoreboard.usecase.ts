@@ -0,0 +1,241 @@
+import type { Challenge, ChallengeParticipant, Prisma } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { NotFoundError } from '../../shared/errors/app-error.js'
+import { awardXpOrThrowUseCase } from '../gamification/award-xp.usecase.js'
+
+export type ChallengeScore = {
+  targetId: string
+  label: string
+  members: number
+  xp: number
+  score: number
+  rank: number
+}
+
+type ScoredChallenge = Pick<Challenge, 'id' | 'tipo' | 'scoring' | 'startsAt' | 'endsAt'> & {
+  participants: Pick<ChallengeParticipant, 'targetId'>[]
+}
+
+function memberWhere(challenge: ScoredChallenge): Prisma.UserWhereInput {
+  const targetIds = challenge.participants.map(p => p.targetId)
+  return {
+    role: 'colaborador',
+    isActive: true,
+    ...(challenge.tipo === 'times' ? { managerId: { in: targetIds } } : { departamento: { in: targetIds } }),
+  }
+}
+
+/**
+ * Scoreboard computed from the XP ledger over the challenge window, using current team
+ * and departamento membership. With scoring=media each side scores its XP per member.
+ */
+export async function computeChallengeScoreboard(challenge: ScoredChallenge, now: Date = new Date()): Promise<ChallengeScore[]> {
+  const members = await prisma.user.findMany({
+    where: memberWhere(challenge),
+    select: { id: true, managerId: true, departamento: true },
+  })
+  const sideOf = new Map(members.map(m => [m.id, challenge.tipo === 'times' ? m.managerId! : m.departamento]))
+
+  const xpBySide = new Map<string, number>()
+  const until = now < challenge.endsAt ? now : challenge.endsAt
+  if (members.length > 0 && challenge.startsAt < until) {
+    const groups = await prisma.xpLedgerEntry.groupBy({
+      by: ['userId'],
+      where: {
+        createdAt: { gte: challenge.startsAt, lt: challenge.endsAt },
+        xpDelta: { gt: 0 },
+        user: memberWhere(challenge),
+      },
+      _sum: { xpDelta: true },
+    })
+    for (const group of groups) {
+      const side = sideOf.get(group.userId)
+      if (side) xpBySide.set(side, (xpBySide.get(side) ?? 0) + (group._sum.xpDelta ?? 0))
+    }
+  }
+
+  // Teams are labelled with the gestor's name
+  const labels = new Map<string, string>()
+  if (challenge.tipo === 'times') {
+    const gestores = await prisma.user.findMany({
+      where: { id: { in: challenge.participants.map(p => p.targetId) } },
+      select: { id: true, nome: true },
+    })
+    for (const g of gestores) labels.set(g.id, `Time de ${g.nome}`)
+  }
+
+  const scores = challenge.participants.map((p) => {
+    const size = members.filter(m => sideOf.get(m.id) === p.targetId).length
+    const xp = xpBySide.get(p.targetId) ?? 0
+    const score = challenge.scoring === 'media' ? (size > 0 ? Math.round((xp / size) * 10) / 10 : 0) : xp
+    return { targetId: p.targetId, label: labels.get(p.targetId) ?? p.targetId, members: size, xp, score }
+  }).sort((a, b) => b.score - a.score)
+
+  // Ties share the rank
+  return scores.map(s => ({ ...s, rank: scores.findIndex(o => o.score === s.score) + 1 }))
+}
+
+/**
+ * Live scoreboard while the challenge runs, the frozen one once it is closed.
+ */
+export async function getChallengeScoreboardUseCase(challengeId: string) {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: { participants: true },
+  })
+  if (!challenge) throw new NotFoundError('Challenge', challengeId)
+
+  if (challenge.status === 'closed') {
+    return { challenge, final: true, scoreboard: (challenge.finalScores ?? []) as ChallengeScore[] }
+  }
+  return { challenge, final: false, scoreboard: await computeChallengeScoreboard(challenge) }
+}
+
+/**
+ * Reward (through the gamification queue) and notify every member of a closed challenge
+ * not notified yet. A member is only marked notified once their award is queued; awards
+ * are keyed by challenge and member, so re-running after a partial failure does not pay twice.
+ */
+export async function deliverChallengeResultsUseCase(challengeId: string): Promise<number> {
+  const pending = await prisma.challengeResult.findMany({
+    where: { challengeId, notifiedAt: null },
+    include: {
+      challenge: true,
+      user: { select: { role: true } },
+    },
+  })
+  if (pending.length === 0) return 0
+
+  const { challenge } = pending[0]
+  const scoreboard = (challenge.finalScores ?? []) as ChallengeScore[]
+  const winnerLabels = scoreboard.filter(s => challenge.winnerIds.includes(s.targetId)).map(s => s.label).join(', ')
+
+  let delivered = 0
+  for (const result of pending) {
+    if (result.won && (challenge.rewardXP > 0 || challenge.rewardStars > 0)) {
+      try {
+        await awardXpOrThrowUseCase({
+          userId: result.userId,
+          userRole: result.user.role,
+          action: 'vencer_desafio',
+          xp: challenge.rewardXP,
+          stars: challenge.rewardStars,
+          source: { type: 'challenge', id: challenge.id },
+          context: { challengeId: challenge.id, side: result.targetId },
+        })
+      } catch (err) {
+        // Left pending for the next challenge-maintenance run
+        console.error(`[Challenges] Reward failed for user ${result.userId} in challenge ${challenge.id}:`, (err as Error).message)
+        continue
+      }
+    }
+
+    await enqueueNotification({
+      userId: result.userId,
+      type: 'achievement',
+      title: result.won ? 'Seu time venceu o desafio!' : 'Desafio encerrado',
+      message: result.won
+        ? `Parabéns! Vocês venceram o desafio "${challenge.nome}".`
+        : challenge.winnerIds.length > 0
+          ? `O desafio "${challenge.nome}" terminou. Vencedor: ${winnerLabels}.`
+          : `O desafio "${challenge.nome}" terminou sem vencedor.`,
+      data: { challengeId: challenge.id, won: result.won, winnerIds: challenge.winnerIds },
+    })
+
+    await prisma.challengeResult.update({ where: { id: result.id }, data: { notifiedAt: new Date() } })
+    delivered++
+  }
+
+  return delivered
+}
+
+/**
+ * Freeze the scoreboard of an ended challenge, record the winner(s) and the members of
+ * every side, then deliver the shared reward to the winning side(s). Nobody wins when no
+ * side scored. Closing is a conditional status update, so concurrent runs close a
+ * challenge once. Returns false if the challenge was already closed.
+ */
+export async function finalizeChallengeUseCase(challengeId: string, actorId: string | null = null): Promise<boolean> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: { participants: true },
+  })
+  if (!challenge) throw new NotFoundError('Challenge', challengeId)
+  if (challenge.status === 'closed') return false
+
+  const scoreboard = await computeChallengeScoreboard(challenge, challenge.endsAt)
+  const winnerIds = scoreboard.length > 0 && scoreboard[0].score > 0
+    ? scoreboard.filter(s => s.rank === 1).map(s => s.targetId)
+    : []
+
+  const members = await prisma.user.findMany({
+    where: memberWhere(challenge),
+    select: { id: true, managerId: true, departamento: true },
+  })
+
+  const closed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.challenge.updateMany({
+      where: { id: challenge.id, status: { not: 'closed' } },
+      data: { status: 'closed', closedAt: new Date(), winnerIds, finalScores: scoreboard },
+    })
+    if (count === 0) return false
+
+    await tx.challengeResult.createMany({
+      data: members.map((member) => {
+        const side = (challenge.tipo === 'times' ? member.managerId : member.departamento) ?? ''
+        return { challengeId: challenge.id, userId: member.id, targetId: side, won: winnerIds.includes(side) }
+      }),
+    })
+
+    await tx.auditLog.create({
+      data: {
+        actorId,
+        action: 'challenge.close',
+        resourceType: 'challenge',
+        resourceId: challenge.id,
+        metadata: { winnerIds, participants: scoreboard.length, members: members.length },
+      },
+    })
+    return true
+  }, { timeout: 60000 })
+
+  if (closed) await deliverChallengeResultsUseCase(challenge.id)
+  return closed
+}
+
+/**
+ * Hourly challenge maintenance: start scheduled challenges, close the ones that ended and
+ * retry reward delivery left pending by an earlier failure.
+ */
+export async function processChallengesUseCase(now: Date = new Date()) {
+  const { count: started } = await prisma.challenge.updateMany({
+    where: { status: 'scheduled', startsAt: { lte: now }, endsAt: { gt: now } },
+    data: { status: 'active' },
+  })
+
+  const ended = await prisma.challenge.findMany({
+    where: { status: { not: 'closed' }, endsAt: { lte: now } },
+    select: { id: true },
+  })
+  let closed = 0
+  for (const challenge of ended) {
+    try {
+      if (await finalizeChallengeUseCase(challenge.id)) closed++
+    } catch (err) {
+      console.error(`[Challenges] Failed to close challenge ${challenge.id}:`, (err as Error).message)
+    }
+  }
+
+  const undelivered = await prisma.challengeResult.findMany({
+    where: { notifiedAt: null, challenge: { status: 'closed' } },
+    distinct: ['challengeId'],
+    select: { challengeId: true },
+  })
+  let delivered = 0
+  for (const { challengeId } of undelivered) {
+    delivered += await deliverChallengeResultsUseCase(challengeId)
+  }
+
+  return { started, closed, delivered }
+}
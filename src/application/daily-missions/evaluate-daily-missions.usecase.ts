@@ -0,0 +1,140 @@
+import { Prisma, type DailyMission, type UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { toLocalDateString, startOfLocalDay, getDayOfWeek } from '../../shared/utils/date.js'
+import { awardXpUseCase } from '../gamification/award-xp.usecase.js'
+import { countActionOccurrences } from '../engagements/evaluate-engagement-progress.usecase.js'
+import { buildAudienceWhere, getAudienceMember } from '../audience/resolve-audience.usecase.js'
+
+export interface MissionProgress {
+  current: number
+  target: number
+  completed: boolean
+}
+
+/**
+ * Mission day ("YYYY-MM-DD"), when it starts and its weekday, in the user's timezone.
+ */
+export function getMissionDay(timeZone: string, now: Date = new Date()) {
+  const date = toLocalDateString(now, timeZone)
+  return { date, start: startOfLocalDay(date, timeZone), dayOfWeek: getDayOfWeek(date) }
+}
+
+/**
+ * Today's active missions whose audience includes the user.
+ */
+export async function getTodayMissionsForUser(userId: string, dayOfWeek: number) {
+  const member = await getAudienceMember(userId)
+  return prisma.dailyMission.findMany({
+    where: {
+      isActive: true,
+      diasAtivos: { has: dayOfWeek },
+      ...buildAudienceWhere('publicoAlvoType', 'targetIds', member),
+    },
+  })
+}
+
+/**
+ * How many times the mission action was performed during the mission day.
+ */
+export async function getMissionProgress(
+  userId: string,
+  mission: Pick<DailyMission, 'actionType' | 'target'>,
+  day: { date: string; start: Date },
+): Promise<MissionProgress> {
+  const target = Math.max(1, mission.target)
+  let current: number
+
+  if (mission.actionType === 'acessar_plataforma' || mission.actionType === 'acessar_consecutivo') {
+    // dailyAccess already holds local days, so compare against the mission day directly
+    const tracking = await prisma.engagementTracking.findUnique({
+      where: { userId },
+      select: { lastAccessDate: true, consecutiveStreak: true },
+    })
+    const accessedToday = tracking?.lastAccessDate === day.date
+    current = !accessedToday ? 0 : mission.actionType === 'acessar_plataforma' ? 1 : tracking?.consecutiveStreak ?? 0
+  } else {
+    current = await countActionOccurrences(userId, mission.actionType, day.start)
+  }
+
+  return { current: Math.min(current, target), target, completed: current >= target }
+}
+
+/**
+ * Record the completion and award the mission reward. Returns null if the mission
+ * was already completed for that day.
+ */
+export async function completeDailyMission(params: {
+  userId: string
+  userRole: UserRole
+  mission: DailyMission
+  date: string
+}) {
+  let completion
+  try {
+    completion = await prisma.dailyMissionCompletion.create({
+      data: { missionId: params.mission.id, userId: params.userId, date: params.date },
+    })
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null
+    throw err
+  }
+
+  await awardXpUseCase({
+    userId: params.userId,
+    userRole: params.userRole,
+    action: 'completar_missao',
+    xp: params.mission.rewardXP,
+    stars: params.mission.rewardStars,
+    source: { type: 'daily_mission_completion', id: completion.id },
+    context: { missionId: params.mission.id },
+  })
+
+  await enqueueNotification({
+    userId: params.userId,
+    type: 'mission_complete',
+    title: 'Missão diária concluída!',
+    message: `Você concluiu a missão "${params.mission.nome}"`,
+    data: { missionId: params.mission.id, date: params.date },
+  })
+
+  return completion
+}
+
+/**
+ * Auto-complete today's missions whose action threshold the user has crossed.
+ * Triggered by the gamification worker after each platform action.
+ */
+export async function evaluateDailyMissionsUseCase(input: {
+  userId: string
+  userRole: UserRole
+  timeZone: string
+  now?: Date
+}) {
+  const day = getMissionDay(input.timeZone, input.now)
+  const missions = await getTodayMissionsForUser(input.userId, day.dayOfWeek)
+  if (missions.length === 0) return []
+
+  const done = await prisma.dailyMissionCompletion.findMany({
+    where: { userId: input.userId, date: day.date, missionId: { in: missions.map(m => m.id) } },
+    select: { missionId: true },
+  })
+  const doneSet = new Set(done.map(c => c.missionId))
+
+  const completed = []
+  for (const mission of missions) {
+    if (doneSet.has(mission.id)) continue
+    const progress = await getMissionProgress(input.userId, mission, day)
+    if (!progress.completed) continue
+
+    const completion = await completeDailyMission({
+      userId: input.userId,
+      userRole: input.userRole,
+      mission,
+      date: day.date,
+    })
+    if (completion) completed.push(completion)
+  }
+
+  return completed
+}
@@ -0,0 +1,186 @@
+import type { ActionType, EngajamentoAction, UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { awardXpUseCase } from '../gamification/award-xp.usecase.js'
+import { longestStreak, resolveTimeZone, toLocalDateString } from '../../shared/utils/date.js'
+
+export interface ActionRequirementProgress {
+  actionId: string
+  type: ActionType
+  target: number
+  current: number
+  completed: boolean
+}
+
+/**
+ * Count how many times a user performed an ActionType since a given date,
+ * reading EngagementTracking and the underlying module tables.
+ */
+export async function countActionOccurrences(userId: string, type: ActionType, since: Date): Promise<number> {
+  switch (type) {
+    case 'acessar_plataforma':
+    case 'acessar_consecutivo': {
+      const tracking = await prisma.engagementTracking.findUnique({
+        where: { userId },
+        select: { dailyAccess: true, user: { select: { timezone: true } } },
+      })
+      // dailyAccess holds days in the user's timezone
+      const sinceStr = toLocalDateString(since, resolveTimeZone(tracking?.user.timezone))
+      const days = (tracking?.dailyAccess ?? []).filter(d => d >= sinceStr)
+      return type === 'acessar_plataforma' ? new Set(days).size : longestStreak(days)
+    }
+    case 'completar_treinamento': {
+      const [trainings, courses] = await Promise.all([
+        prisma.trainingProgress.count({ where: { userId, completedAt: { gte: since } } }),
+        prisma.courseProgress.count({ where: { userId, completedAt: { gte: since } } }),
+      ])
+      return trainings + courses
+    }
+    case 'interagir_feed': {
+      const [posts, comments, reactions] = await Promise.all([
+        prisma.feedPost.count({ where: { userId, deletedAt: null, createdAt: { gte: since } } }),
+        prisma.feedComment.count({ where: { userId, deletedAt: null, createdAt: { gte: since } } }),
+        prisma.feedReaction.count({ where: { userId, createdAt: { gte: since } } }),
+      ])
+      return posts + comments + reactions
+    }
+    case 'criar_post':
+      return prisma.feedPost.count({ where: { userId, deletedAt: null, createdAt: { gte: since } } })
+    case 'comentar_post':
+      return prisma.feedComment.count({ where: { userId, deletedAt: null, createdAt: { gte: since } } })
+    case 'reagir_post':
+      return prisma.feedReaction.count({ where: { userId, createdAt: { gte: since } } })
+    case 'dar_feedback':
+      return prisma.feedback.count({ where: { fromUserId: userId, createdAt: { gte: since } } })
+    case 'responder_pesquisa':
+      return prisma.surveyResponse.count({ where: { userId, submittedAt: { gte: since } } })
+    case 'participar_evento':
+      return prisma.eventParticipation.count({ where: { userId, attended: true, xpGrantedAt: { gte: since } } })
+    case 'resgatar_recompensa':
+      return prisma.rewardRedemption.count({ where: { userId, redeemedAt: { gte: since } } })
+    case 'registrar_humor':
+      return prisma.moodEntry.count({ where: { userId, createdAt: { gte: since } } })
+    default:
+      return 0
+  }
+}
+
+export async function getActionRequirementsProgress(
+  userId: string,
+  actions: EngajamentoAction[],
+  since: Date,
+): Promise<ActionRequirementProgress[]> {
+  return Promise.all(actions.map(async (action) => {
+    const target = Math.max(1, action.target ?? 1)
+    const current = await countActionOccurrences(userId, action.type, since)
+    return {
+      actionId: action.id,
+      type: action.type,
+      target,
+      current,
+      completed: current >= target,
+    }
+  }))
+}
+
+/**
+ * Persist participant progress; on completion awards the engagement reward.
+ * The update is conditional on the participant still being in progress, so when
+ * concurrent evaluations complete it only the first one awards the reward. With
+ * `previousActions` it is also conditional on the completed actions it was computed
+ * from; `applied` is false when another update got there first.
+ */
+export async function applyParticipantProgress(params: {
+  participantId: string
+  userId: string
+  userRole: UserRole
+  engajamento: { id: string; rewardXP: number; rewardStars: number }
+  completedActions: string[]
+  progressPercentage: number
+  previousActions?: string[]
+}) {
+  const isCompleted = params.progressPercentage >= 100
+
+  const { count } = await prisma.engajamentoParticipant.updateMany({
+    where: {
+      id: params.participantId,
+      status: 'in_progress',
+      ...(params.previousActions && { completedActions: { equals: params.previousActions } }),
+    },
+    data: {
+      completedActions: params.completedActions,
+      progressPercentage: Math.min(100, params.progressPercentage),
+      status: isCompleted ? 'completed' : 'in_progress',
+      completedAt: isCompleted ? new Date() : null,
+    },
+  })
+  const updated = await prisma.engajamentoParticipant.findUniqueOrThrow({ where: { id: params.participantId } })
+  if (count === 0) return { participant: updated, completed: false, applied: false }
+
+  if (isCompleted) {
+    await awardXpUseCase({
+      userId: params.userId,
+      userRole: params.userRole,
+      action: 'completar_engajamento',
+      xp: params.engajamento.rewardXP,
+      stars: params.engajamento.rewardStars,
+      source: { type: 'engajamento', id: params.engajamento.id },
+      context: { engajamentoId: params.engajamento.id },
+    })
+  }
+
+  return { participant: updated, completed: isCompleted, applied: true }
+}
+
+/**
+ * Re-evaluate every in-progress automatic engagement of a user.
+ * Triggered by the gamification worker after each platform action.
+ */
+export async function evaluateEngagementProgressUseCase(input: { userId: string; userRole: UserRole }): Promise<void> {
+  const participations = await prisma.engajamentoParticipant.findMany({
+    where: {
+      userId: input.userId,
+      status: 'in_progress',
+      engajamento: {
+        isActive: true,
+        AND: [
+          { OR: [{ completionMethod: null }, { completionMethod: 'automatic' }] },
+          // Expired but not yet closed by the maintenance job
+          { OR: [{ endDate: null }, { endDate: { gte: new Date() } }] },
+        ],
+      },
+    },
+    include: { engajamento: { include: { requiredActions: true } } },
+  })
+
+  for (const participant of participations) {
+    const { engajamento } = participant
+    if (engajamento.requiredActions.length === 0) continue
+
+    // Only actions performed after the user joined (and after the campaign opened) count
+    const candidates = [participant.startedAt, engajamento.startDate].filter((d): d is Date => !!d)
+    const since = candidates.length > 0
+      ? new Date(Math.max(...candidates.map(d => d.getTime())))
+      : new Date(0)
+
+    const requirements = await getActionRequirementsProgress(input.userId, engajamento.requiredActions, since)
+    const completedActions = requirements.filter(r => r.completed).map(r => r.actionId)
+    const ratioSum = requirements.reduce((acc, r) => acc + Math.min(1, r.current / r.target), 0)
+    const allCompleted = completedActions.length === requirements.length
+    const progressPercentage = allCompleted
+      ? 100
+      : Math.min(99, Math.round((ratioSum / requirements.length) * 100))
+
+    const unchanged = progressPercentage === participant.progressPercentage &&
+      completedActions.length === participant.completedActions.length
+    if (unchanged) continue
+
+    await applyParticipantProgress({
+      participantId: participant.id,
+      userId: input.userId,
+      userRole: input.userRole,
+      engajamento,
+      completedActions,
+      progressPercentage,
+    })
+  }
+}
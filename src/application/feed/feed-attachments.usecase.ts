@@ -0,0 +1,143 @@
+import type { AttachmentKind, FeedAttachment, Prisma } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { createUploadUrl, createDownloadUrl, getObjectInfo } from '../../infrastructure/storage/r2.client.js'
+import { ConflictError, NotFoundError, ValidationError } from '../../shared/errors/app-error.js'
+
+export const MAX_ATTACHMENTS_PER_POST = 10
+
+const MB = 1024 * 1024
+
+export const ATTACHMENT_RULES: Record<AttachmentKind, { contentTypes: string[]; maxBytes: number }> = {
+  image: {
+    contentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    maxBytes: 10 * MB,
+  },
+  video: {
+    contentTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    maxBytes: 100 * MB,
+  },
+  document: {
+    contentTypes: [
+      'application/pdf',
+      'text/plain',
+      'text/csv',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+    maxBytes: 20 * MB,
+  },
+}
+
+export function getAttachmentKind(contentType: string): AttachmentKind | null {
+  const kinds = Object.keys(ATTACHMENT_RULES) as AttachmentKind[]
+  return kinds.find(k => ATTACHMENT_RULES[k].contentTypes.includes(contentType)) ?? null
+}
+
+function sanitizeFilename(name: string) {
+  return name.replace(/[^a-zA-Z0-9._-]/g, '_')
+}
+
+/**
+ * Validate type and size, register the pending attachment and return a presigned URL
+ * bound to that content type and exact size. The upload goes straight to R2.
+ */
+export async function requestAttachmentUploadUseCase(input: {
+  userId: string
+  filename: string
+  contentType: string
+  size: number
+}) {
+  const kind = getAttachmentKind(input.contentType)
+  if (!kind) throw new ValidationError(`Unsupported attachment type: ${input.contentType}`)
+
+  const { maxBytes } = ATTACHMENT_RULES[kind]
+  if (input.size > maxBytes) {
+    throw new ValidationError(`Attachment exceeds the ${maxBytes / MB} MB limit for ${kind} files`)
+  }
+
+  const key = `feed/${input.userId}/${Date.now()}-${sanitizeFilename(input.filename)}`
+  const { uploadUrl } = await createUploadUrl({ key, contentType: input.contentType, contentLength: input.size })
+
+  const attachment = await prisma.feedAttachment.create({
+    data: {
+      uploaderId: input.userId,
+      key,
+      kind,
+      contentType: input.contentType,
+      filename: input.filename,
+      size: input.size,
+    },
+  })
+
+  return { attachment, uploadUrl }
+}
+
+/**
+ * Load the attachments a post is about to reference, in the requested order. They must
+ * belong to the author, be free or already on this post, and have been uploaded with
+ * the declared size.
+ */
+export async function resolvePostAttachments(input: {
+  userId: string
+  attachmentIds: string[]
+  postId?: string
+}): Promise<FeedAttachment[]> {
+  const ids = [...new Set(input.attachmentIds)]
+  if (ids.length > MAX_ATTACHMENTS_PER_POST) {
+    throw new ValidationError(`A post accepts at most ${MAX_ATTACHMENTS_PER_POST} attachments`)
+  }
+  if (ids.length === 0) return []
+
+  const attachments = await prisma.feedAttachment.findMany({
+    where: {
+      id: { in: ids },
+      uploaderId: input.userId,
+      OR: [{ postId: null }, ...(input.postId ? [{ postId: input.postId }] : [])],
+    },
+  })
+  const byId = new Map(attachments.map(a => [a.id, a]))
+  const missing = ids.find(id => !byId.has(id))
+  if (missing) throw new NotFoundError('Attachment', missing)
+
+  for (const attachment of attachments) {
+    const info = await getObjectInfo(attachment.key)
+    if (!info) throw new ValidationError(`Attachment ${attachment.id} was not uploaded`)
+    if (info.size !== attachment.size || info.contentType !== attachment.contentType) {
+      throw new ValidationError(`Attachment ${attachment.id} does not match its declared type and size`)
+    }
+  }
+
+  return ids.map(id => byId.get(id)!)
+}
+
+/**
+ * Point the given attachments at a post, keeping their order. The update is conditional
+ * so an attachment claimed by a concurrent post is not moved.
+ */
+export async function linkPostAttachments(
+  tx: Prisma.TransactionClient,
+  postId: string,
+  attachments: Pick<FeedAttachment, 'id'>[],
+): Promise<void> {
+  for (const [position, attachment] of attachments.entries()) {
+    const { count } = await tx.feedAttachment.updateMany({
+      where: { id: attachment.id, OR: [{ postId: null }, { postId }] },
+      data: { postId, position },
+    })
+    if (count === 0) throw new ConflictError(`Attachment ${attachment.id} is already used by another post`)
+  }
+}
+
+/**
+ * Replace the stored key of each attachment with a short-lived download URL.
+ */
+export async function withAttachmentUrls<T extends { attachments: Pick<FeedAttachment, 'key'>[] }>(posts: T[]) {
+  return Promise.all(posts.map(async post => ({
+    ...post,
+    attachments: await Promise.all(post.attachments.map(async ({ key, ...attachment }) => ({
+      ...attachment,
+      url: await createDownloadUrl(key),
+    }))),
+  })))
+}
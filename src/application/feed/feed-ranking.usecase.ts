@@ -0,0 +1,201 @@
+import type { Prisma, UserRole } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { ValidationError } from '../../shared/errors/app-error.js'
+import { decodeCursor, encodeCursor } from '../../shared/utils/pagination.js'
+
+export type FeedOrder = 'recent' | 'relevance'
+
+export type FeedFilters = {
+  departamento?: string
+  team?: boolean
+  authorId?: string
+  reacted?: boolean
+}
+
+type FeedViewer = { id: string; role: UserRole; managerId: string | null; departamento: string }
+
+const recentCursorSchema = z.object({
+  pinned: z.boolean(),
+  createdAt: z.string().datetime(),
+  id: z.string().min(1),
+})
+const relevanceCursorSchema = z.object({
+  asOf: z.string().datetime(),
+  pinned: z.boolean(),
+  score: z.number().finite(),
+  id: z.string().min(1),
+})
+
+type RecentCursor = z.infer<typeof recentCursorSchema>
+
+// Relevance only ranks recent posts; older ones are reached through the recent order
+const RELEVANCE_WINDOW_DAYS = 14
+const RELEVANCE_MAX_CANDIDATES = 500
+const RELEVANCE_HALF_LIFE_HOURS = 24
+const TEAM_PROXIMITY = 1.5
+const DEPARTMENT_PROXIMITY = 0.75
+
+/**
+ * Ids of the viewer's team: a gestor's direct reports, or a colaborador's teammates
+ * and gestor. Always includes the viewer.
+ */
+async function getTeamUserIds(viewer: FeedViewer): Promise<string[]> {
+  if (viewer.role !== 'colaborador') {
+    const reports = await prisma.user.findMany({ where: { managerId: viewer.id }, select: { id: true } })
+    return [viewer.id, ...reports.map(u => u.id)]
+  }
+  if (!viewer.managerId) return [viewer.id]
+
+  const teammates = await prisma.user.findMany({ where: { managerId: viewer.managerId }, select: { id: true } })
+  return [viewer.id, viewer.managerId, ...teammates.map(u => u.id)]
+}
+
+async function buildFeedWhere(viewer: FeedViewer, filters: FeedFilters): Promise<Prisma.FeedPostWhereInput> {
+  const and: Prisma.FeedPostWhereInput[] = [{ deletedAt: null, hiddenAt: null }]
+  if (filters.departamento) and.push({ user: { departamento: filters.departamento } })
+  if (filters.authorId) and.push({ userId: filters.authorId })
+  if (filters.team) and.push({ userId: { in: await getTeamUserIds(viewer) } })
+  if (filters.reacted) and.push({ reactions: { some: { userId: viewer.id } } })
+  return { AND: and }
+}
+
+function parseCursor<T>(schema: z.ZodType<T>, cursor: string | undefined): T | null {
+  if (!cursor) return null
+  const parsed = schema.safeParse(decodeCursor<unknown>(cursor))
+  if (!parsed.success) throw new ValidationError('Invalid cursor')
+  return parsed.data
+}
+
+// Pinned first, then newest; the id breaks ties between posts created in the same millisecond
+function recentAfter(cursor: RecentCursor): Prisma.FeedPostWhereInput {
+  const createdAt = new Date(cursor.createdAt)
+  const sameGroup: Prisma.FeedPostWhereInput = {
+    isPinned: cursor.pinned,
+    OR: [{ createdAt: { lt: createdAt } }, { createdAt, id: { lt: cursor.id } }],
+  }
+  return cursor.pinned ? { OR: [sameGroup, { isPinned: false }] } : sameGroup
+}
+
+async function listRecent(where: Prisma.FeedPostWhereInput, cursor: string | undefined, limit: number) {
+  const after = parseCursor(recentCursorSchema, cursor)
+  const posts = await prisma.feedPost.findMany({
+    where: after ? { AND: [where, recentAfter(after)] } : where,
+    orderBy: [{ isPinned: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    select: { id: true, isPinned: true, createdAt: true },
+  })
+
+  const page = posts.slice(0, limit)
+  const last = page[page.length - 1]
+  return {
+    ids: page.map(p => p.id),
+    nextCursor: posts.length > limit && last
+      ? encodeCursor({ pinned: last.isPinned, createdAt: last.createdAt.toISOString(), id: last.id })
+      : null,
+  }
+}
+
+/**
+ * Engagement (reactions, comments weigh double) plus org-chart proximity to the viewer,
+ * halved every RELEVANCE_HALF_LIFE_HOURS.
+ */
+export function scoreFeedPost(
+  post: { userId: string; createdAt: Date; reactions: number; comments: number; author: { managerId: string | null; departamento: string } },
+  viewer: FeedViewer,
+  now: Date,
+): number {
+  let proximity = 0
+  if (post.userId !== viewer.id) {
+    const sameTeam = post.userId === viewer.managerId ||
+      post.author.managerId === viewer.id ||
+      (viewer.managerId !== null && post.author.managerId === viewer.managerId)
+    if (sameTeam) proximity = TEAM_PROXIMITY
+    else if (post.author.departamento === viewer.departamento) proximity = DEPARTMENT_PROXIMITY
+  }
+
+  const engagement = Math.log1p(post.reactions + 2 * post.comments)
+  const ageHours = Math.max(0, now.getTime() - post.createdAt.getTime()) / 3_600_000
+  const decay = Math.pow(0.5, ageHours / RELEVANCE_HALF_LIFE_HOURS)
+  return Math.round((1 + engagement + proximity) * decay * 1e6) / 1e6
+}
+
+async function listRelevant(viewer: FeedViewer, where: Prisma.FeedPostWhereInput, cursor: string | undefined, limit: number) {
+  const after = parseCursor(relevanceCursorSchema, cursor)
+  // Later pages are scored as of the first page, counting only reactions and comments made
+  // by then, so the order does not shift while scrolling. Reactions removed since can
+  // still lower a post's score and move it between pages.
+  const asOf = after ? new Date(after.asOf) : new Date()
+  const since = new Date(asOf.getTime() - RELEVANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const candidates = await prisma.feedPost.findMany({
+    where: { AND: [where, { createdAt: { gte: since, lte: asOf } }] },
+    orderBy: { createdAt: 'desc' },
+    take: RELEVANCE_MAX_CANDIDATES,
+    select: {
+      id: true,
+      userId: true,
+      isPinned: true,
+      createdAt: true,
+      user: { select: { managerId: true, departamento: true } },
+      _count: {
+        select: {
+          reactions: { where: { createdAt: { lte: asOf } } },
+          comments: { where: { createdAt: { lte: asOf } } },
+        },
+      },
+    },
+  })
+
+  const ranked = candidates
+    .map(p => ({
+      id: p.id,
+      pinned: p.isPinned,
+      score: scoreFeedPost({
+        userId: p.userId,
+        createdAt: p.createdAt,
+        reactions: p._count.reactions,
+        comments: p._count.comments,
+        author: p.user,
+      }, viewer, asOf),
+    }))
+    // Ids compare by code unit, as in the cursor filter below
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.score - a.score || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+
+  const remaining = after
+    ? ranked.filter(p =>
+      Number(after.pinned) - Number(p.pinned) > 0 ||
+      (p.pinned === after.pinned && (p.score < after.score || (p.score === after.score && p.id < after.id))))
+    : ranked
+
+  const page = remaining.slice(0, limit)
+  const last = page[page.length - 1]
+  return {
+    ids: page.map(p => p.id),
+    nextCursor: remaining.length > limit && last
+      ? encodeCursor({ asOf: asOf.toISOString(), pinned: last.pinned, score: last.score, id: last.id })
+      : null,
+  }
+}
+
+/**
+ * One page of feed post ids for the viewer, filtered and ordered, with the cursor of
+ * the next page (null on the last one).
+ */
+export async function listFeedPostIdsUseCase(input: {
+  viewerId: string
+  filters: FeedFilters
+  order: FeedOrder
+  cursor?: string
+  limit: number
+}): Promise<{ ids: string[]; nextCursor: string | null }> {
+  const viewer = await prisma.user.findUniqueOrThrow({
+    where: { id: input.viewerId },
+    select: { id: true, role: true, managerId: true, departamento: true },
+  })
+  const where = await buildFeedWhere(viewer, input.filters)
+
+  return input.order === 'relevance'
+    ? listRelevant(viewer, where, input.cursor, input.limit)
+    : listRecent(where, input.cursor, input.limit)
+}
@@ -0,0 +1,168 @@
+import { lookup as dnsLookup } from 'node:dns'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+import { Agent } from 'undici'
+
+export type LinkPreview = {
+  url: string
+  title: string | null
+  description: string | null
+  imageUrl: string | null
+  siteName: string | null
+}
+
+const FETCH_TIMEOUT_MS = 3000
+const MAX_HTML_BYTES = 512 * 1024
+const MAX_REDIRECTS = 3
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/i
+
+export function extractFirstUrl(content: string): string | null {
+  const match = content.match(URL_PATTERN)
+  // Punctuation closing the sentence is not part of the link
+  return match ? match[0].replace(/[.,;:!?)\]]+$/, '') : null
+}
+
+// Loopback, private, link-local, CGNAT, benchmarking, documentation, multicast and
+// reserved ranges. IPv4-mapped IPv6 addresses (::ffff:a9fe:a9fe) match the IPv4 rules.
+const blockedAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+/** Whether an IP address must not be fetched from the server. Anything unparseable counts as private. */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return true
+  return blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+// Hosts are checked at connect time on the addresses the socket actually uses,
+// so a second DNS answer cannot swap in an internal address after the check
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '')
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+      return callback(Object.assign(new Error(`Refusing to connect to ${hostname}: internal address`), { code: 'EADDRNOTAVAIL' }), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+const previewAgent = new Agent({ connect: { lookup: guardedLookup } })
+
+// Previews are fetched server-side: IP literals skip DNS, so they are checked here;
+// hostnames are checked by the agent's lookup when the connection is opened
+function isFetchableUrl(url: URL): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  return isIP(host) === 0 || !isPrivateAddress(host)
+}
+
+async function readLimited(response: Response): Promise<string> {
+  if (!response.body) return ''
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (total < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.length
+  }
+  await reader.cancel().catch(() => undefined)
+  return Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES).toString('utf-8')
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+function parseMetaTags(html: string): Map<string, string> {
+  const meta = new Map<string, string>()
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = new Map<string, string>()
+    for (const [, name, , doubleQuoted, singleQuoted] of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      attrs.set(name.toLowerCase(), doubleQuoted ?? singleQuoted ?? '')
+    }
+    const key = (attrs.get('property') ?? attrs.get('name'))?.toLowerCase()
+    const content = attrs.get('content')
+    if (key && content && !meta.has(key)) meta.set(key, decodeEntities(content.trim()))
+  }
+  return meta
+}
+
+function truncate(text: string | undefined | null, max: number): string | null {
+  if (!text) return null
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+/**
+ * Title, description and image of a web page from its Open Graph / meta tags.
+ * Best effort: any failure (timeout, non-HTML response, internal host) yields null.
+ */
+export async function fetchLinkPreview(rawUrl: string): Promise<LinkPreview | null> {
+  try {
+    let url = new URL(rawUrl)
+    let response: Response | null = null
+
+    // Redirects are followed by hand so every hop goes through the host check
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (!isFetchableUrl(url)) return null
+      response = await fetch(url, {
+        redirect: 'manual',
+        dispatcher: previewAgent,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: { 'User-Agent': 'EngageAI-LinkPreview/1.0', Accept: 'text/html' },
+      })
+      const location = response.headers.get('location')
+      if (response.status < 300 || response.status >= 400 || !location) break
+      url = new URL(location, url)
+      response = null
+    }
+
+    if (!response?.ok || !response.headers.get('content-type')?.includes('text/html')) return null
+
+    const html = await readLimited(response)
+    const meta = parseMetaTags(html)
+    const title = meta.get('og:title') ?? meta.get('twitter:title') ?? html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim()
+    const description = meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description')
+    const image = meta.get('og:image') ?? meta.get('twitter:image')
+
+    let imageUrl: string | null = null
+    if (image) {
+      try {
+        imageUrl = new URL(image, url).toString()
+      } catch {
+        imageUrl = null
+      }
+    }
+
+    if (!title && !description && !imageUrl) return null
+    return {
+      url: url.toString(),
+      title: truncate(title ? decodeEntities(title) : null, 300),
+      description: truncate(description, 500),
+      imageUrl,
+      siteName: truncate(meta.get('og:site_name') ?? url.hostname, 100),
+    }
+  } catch {
+    return null
+  }
+}
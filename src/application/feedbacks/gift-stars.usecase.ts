@@ -0,0 +1,256 @@
+import type { FeedbackStatus, FeedbackType, Prisma, UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../shared/errors/app-error.js'
+import { toLocalDateString, startOfLocalDay } from '../../shared/utils/date.js'
+
+export async function getStarGiftSettings() {
+  return prisma.starGiftSettings.upsert({
+    where: { id: 'singleton' },
+    create: { id: 'singleton' },
+    update: {},
+  })
+}
+
+async function sumGifted(
+  client: Pick<typeof prisma, 'starGift'>,
+  where: { fromUserId: string; toUserId?: string; since: Date },
+): Promise<number> {
+  const result = await client.starGift.aggregate({
+    where: { fromUserId: where.fromUserId, toUserId: where.toUserId, createdAt: { gte: where.since } },
+    _sum: { amount: true },
+  })
+  return result._sum.amount ?? 0
+}
+
+/**
+ * Stars the user can still gift today, in their timezone.
+ */
+export async function getStarGiftAllowanceUseCase(userId: string, timeZone: string, now: Date = new Date()) {
+  const settings = await getStarGiftSettings()
+  const since = startOfLocalDay(toLocalDateString(now, timeZone), timeZone)
+  const sentToday = await sumGifted(prisma, { fromUserId: userId, since })
+
+  return {
+    enabled: settings.enabled,
+    maxStarsPerGift: settings.maxStarsPerGift,
+    maxStarsPerDay: settings.maxStarsPerDay,
+    sentToday,
+    remainingToday: Math.max(0, settings.maxStarsPerDay - sentToday),
+  }
+}
+
+/**
+ * Transfer stars from one colaborador to another together with the recognition
+ * feedback that carries them. The sender is debited immediately, but the recipient
+ * is only credited once the feedback is approved (see settleStarGift); until
+ * then the stars are held on the gift. Both user rows are locked in id order before
+ * the caps are counted, so concurrent gifts between the same pair (in either direction)
+ * are serialized and cannot slip past the daily, per-recipient or reciprocal caps.
+ */
+export async function giftStarsUseCase(input: {
+  fromUserId: string
+  fromRole: UserRole
+  toUserId: string
+  amount: number
+  timeZone: string
+  feedback: { type: FeedbackType; content: string; isPublic: boolean; status: FeedbackStatus }
+  now?: Date
+}) {
+  if (input.fromRole !== 'colaborador') {
+    throw new ForbiddenError('Only colaboradores can gift stars')
+  }
+  if (input.fromUserId === input.toUserId) {
+    throw new ForbiddenError('Cannot gift stars to yourself')
+  }
+
+  const settings = await getStarGiftSettings()
+  if (!settings.enabled) throw new ForbiddenError('Star gifting is disabled')
+  if (input.amount > settings.maxStarsPerGift) {
+    throw new ValidationError(`At most ${settings.maxStarsPerGift} stars per gift`)
+  }
+
+  const [sender, recipient] = await Promise.all([
+    prisma.user.findUnique({ where: { id: input.fromUserId }, select: { id: true, nome: true } }),
+    prisma.user.findUnique({ where: { id: input.toUserId }, select: { id: true, role: true, isActive: true } }),
+  ])
+  if (!sender) throw new NotFoundError('User', input.fromUserId)
+  if (!recipient) throw new NotFoundError('User', input.toUserId)
+  if (!recipient.isActive || recipient.role !== 'colaborador') {
+    throw new ValidationError('Stars can only be gifted to active colaboradores')
+  }
+
+  const now = input.now ?? new Date()
+  const dayStart = startOfLocalDay(toLocalDateString(now, input.timeZone), input.timeZone)
+  const windowStart = new Date(now.getTime() - settings.windowDays * 24 * 60 * 60 * 1000)
+
+  const approved = input.feedback.status === 'aprovado'
+  const { feedback, gift } = await prisma.$transaction(async (tx) => {
+    const debit = async () => {
+      const { count } = await tx.user.updateMany({
+        where: { id: input.fromUserId, estrelas: { gte: input.amount } },
+        data: { estrelas: { decrement: input.amount } },
+      })
+      if (count === 0) throw new ForbiddenError(`Insufficient stars to gift ${input.amount}`)
+    }
+    // Locks the recipient row even when the stars are held, so the pair stays serialized
+    const credit = () => tx.user.update({
+      where: { id: input.toUserId },
+      data: { estrelas: { increment: approved ? input.amount : 0 } },
+    })
+    // Same lock order for every pair, otherwise A->B and B->A at once would deadlock
+    if (input.fromUserId < input.toUserId) {
+      await debit()
+      await credit()
+    } else {
+      await credit()
+      await debit()
+    }
+
+    const sentToday = await sumGifted(tx, { fromUserId: input.fromUserId, since: dayStart })
+    if (sentToday + input.amount > settings.maxStarsPerDay) {
+      throw new ForbiddenError(
+        `Daily gifting limit (${settings.maxStarsPerDay} stars) reached, ${Math.max(0, settings.maxStarsPerDay - sentToday)} left`,
+      )
+    }
+    const sentToRecipient = await sumGifted(tx, {
+      fromUserId: input.fromUserId,
+      toUserId: input.toUserId,
+      since: windowStart,
+    })
+    if (sentToRecipient + input.amount > settings.maxStarsPerRecipient) {
+      throw new ForbiddenError(
+        `Limit of ${settings.maxStarsPerRecipient} stars to the same colleague every ${settings.windowDays} days reached`,
+      )
+    }
+    const receivedFromRecipient = await sumGifted(tx, {
+      fromUserId: input.toUserId,
+      toUserId: input.fromUserId,
+      since: windowStart,
+    })
+    if (receivedFromRecipient > 0 && sentToRecipient + input.amount > settings.maxReciprocalStars) {
+      throw new ForbiddenError(
+        `Limit of ${settings.maxReciprocalStars} stars back to a colleague who gifted you reached`,
+      )
+    }
+
+    const feedback = await tx.feedback.create({
+      data: {
+        fromUserId: input.fromUserId,
+        toUserId: input.toUserId,
+        ...input.feedback,
+      },
+      include: {
+        toUser: { select: { id: true, nome: true, cargo: true } },
+      },
+    })
+    const gift = await tx.starGift.create({
+      data: {
+        fromUserId: input.fromUserId,
+        toUserId: input.toUserId,
+        feedbackId: feedback.id,
+        amount: input.amount,
+        status: approved ? 'credited' : 'held',
+        settledAt: approved ? now : null,
+      },
+    })
+
+    const balances = await tx.user.findMany({
+      where: { id: { in: approved ? [input.fromUserId, input.toUserId] : [input.fromUserId] } },
+      select: { id: true, xp: true, estrelas: true },
+    })
+    for (const balance of balances) {
+      const sent = balance.id === input.fromUserId
+      await tx.xpLedgerEntry.create({
+        data: {
+          userId: balance.id,
+          action: sent ? 'enviar_estrelas' : 'receber_estrelas',
+          sourceType: 'star_gift',
+          sourceId: gift.id,
+          starsDelta: sent ? -input.amount : input.amount,
+          xpBalance: balance.xp,
+          starsBalance: balance.estrelas,
+          metadata: { feedbackId: feedback.id, counterpartId: sent ? input.toUserId : input.fromUserId },
+        },
+      })
+    }
+
+    return { feedback, gift }
+  })
+
+  if (approved) await notifyGiftReceived(gift, sender.nome)
+
+  return { feedback, gift }
+}
+
+async function notifyGiftReceived(
+  gift: { id: string; fromUserId: string; toUserId: string; feedbackId: string; amount: number },
+  senderName: string,
+) {
+  await enqueueNotification({
+    userId: gift.toUserId,
+    type: 'feedback_received',
+    title: 'Você recebeu estrelas!',
+    message: `${senderName} enviou ${gift.amount} ${gift.amount === 1 ? 'estrela' : 'estrelas'} para você junto com um reconhecimento.`,
+    data: { giftId: gift.id, feedbackId: gift.feedbackId, stars: gift.amount, fromUserId: gift.fromUserId },
+  })
+}
+
+/**
+ * Release the stars held on a feedback's gift inside the review transaction: approval
+ * credits the recipient, rejection refunds the sender. The status change is conditional
+ * on the gift still being held; a gift that was already settled aborts the review.
+ */
+export async function settleStarGift(
+  tx: Prisma.TransactionClient,
+  gift: { id: string; fromUserId: string; toUserId: string; feedbackId: string; amount: number },
+  outcome: 'approved' | 'rejected',
+) {
+  const to = outcome === 'approved' ? 'credited' : 'reversed'
+  const beneficiaryId = to === 'credited' ? gift.toUserId : gift.fromUserId
+
+  const { count } = await tx.starGift.updateMany({
+    where: { id: gift.id, status: 'held' },
+    data: { status: to, settledAt: new Date() },
+  })
+  if (count === 0) throw new ConflictError('Star gift for this feedback was already settled')
+
+  const balance = await tx.user.update({
+    where: { id: beneficiaryId },
+    data: { estrelas: { increment: gift.amount } },
+    select: { xp: true, estrelas: true },
+  })
+  await tx.xpLedgerEntry.create({
+    data: {
+      userId: beneficiaryId,
+      action: to === 'credited' ? 'receber_estrelas' : 'estorno_estrelas',
+      sourceType: 'star_gift',
+      sourceId: gift.id,
+      starsDelta: gift.amount,
+      xpBalance: balance.xp,
+      starsBalance: balance.estrelas,
+      metadata: {
+        feedbackId: gift.feedbackId,
+        counterpartId: to === 'credited' ? gift.fromUserId : gift.toUserId,
+      },
+    },
+  })
+}
+
+export async function notifyStarGiftSettled(
+  gift: { id: string; fromUserId: string; toUserId: string; feedbackId: string; amount: number },
+  senderName: string,
+  outcome: 'approved' | 'rejected',
+) {
+  if (outcome === 'approved') {
+    await notifyGiftReceived(gift, senderName)
+    return
+  }
+  await enqueueNotification({
+    userId: gift.fromUserId,
+    type: 'system',
+    title: 'Estrelas devolvidas',
+    message: `Seu reconhecimento não foi aprovado e ${gift.amount} ${gift.amount === 1 ? 'estrela voltou' : 'estrelas voltaram'} para você.`,
+    data: { giftId: gift.id, feedbackId: gift.feedbackId, stars: gift.amount },
+  })
+}
@@ -0,0 +1,42 @@
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { ConflictError, NotFoundError } from '../../shared/errors/app-error.js'
+import { notifyStarGiftSettled, settleStarGift } from './gift-stars.usecase.js'
+
+/**
+ * Approve or reject a pending feedback. The status change and the settlement of its
+ * held gift stars commit together, and the status change is conditional on the feedback
+ * still being pending, so a concurrent or repeated review is refused with a conflict.
+ */
+export async function reviewFeedbackUseCase(input: {
+  feedbackId: string
+  outcome: 'approved' | 'rejected'
+  reviewerId: string
+  note?: string
+}) {
+  const existing = await prisma.feedback.findUnique({
+    where: { id: input.feedbackId },
+    select: { status: true, starGift: { include: { fromUser: { select: { nome: true } } } } },
+  })
+  if (!existing) throw new NotFoundError('Feedback', input.feedbackId)
+  if (existing.status !== 'pendente') throw new ConflictError(`Feedback was already ${existing.status}`)
+
+  const { starGift: gift } = existing
+  const feedback = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.feedback.updateMany({
+      where: { id: input.feedbackId, status: 'pendente' },
+      data: {
+        status: input.outcome === 'approved' ? 'aprovado' : 'rejeitado',
+        reviewedBy: input.reviewerId,
+        reviewedAt: new Date(),
+        reviewNote: input.note,
+      },
+    })
+    if (count === 0) throw new ConflictError('Feedback was already reviewed')
+
+    if (gift) await settleStarGift(tx, gift, input.outcome)
+    return tx.feedback.findUniqueOrThrow({ where: { id: input.feedbackId } })
+  })
+
+  if (gift) await notifyStarGiftSettled(gift, gift.fromUser.nome, input.outcome)
+  return feedback
+}
@@ -1,4 +1,8 @@
-import { enqueueGamificationEvent } from '../../infrastructure/queue/bullmq.client.js'
+import {
+  enqueueGamificationEvent,
+  enqueueGamificationEventOrThrow,
+  type GamificationJobData,
+} from '../../infrastructure/queue/bullmq.client.js'
 import type { UserRole } from '@prisma/client'
 
 export interface AwardXpInput {
@@ -7,9 +11,25 @@ export interface AwardXpInput {
   action: string
   xp: number
   stars?: number
+  // Entity that originated the reward (recorded in the XP ledger)
+  source?: { type: string; id: string }
+  // Overrides the default action+source+user key (e.g. per-day awards)
+  idempotencyKey?: string
   context?: Record<string, unknown>
 }
 
+// AuditLog action for replayed awards rejected by the gamification worker
+export const GAMIFICATION_DUPLICATE_ACTION = 'gamification.duplicate_rejected'
+
+/**
+ * Key under which an award is credited at most once. Awards without a source
+ * entity are not deduplicated.
+ */
+export function buildAwardIdempotencyKey(input: Pick<AwardXpInput, 'userId' | 'action' | 'source'>): string | undefined {
+  if (!input.source) return undefined
+  return `${input.action}:${input.source.type}:${input.source.id}:${input.userId}`
+}
+
 /**
  * Award XP to a user via async queue.
  * Respects GamificationGuard - only colaboradores receive XP.
@@ -20,38 +40,28 @@ export async function awardXpUseCase(input: AwardXpInput): Promise<void> {
     return // GamificationGuard: only colaboradores get XP
   }
 
-  await enqueueGamificationEvent({
+  await enqueueGamificationEvent(buildAwardJob(input))
+}
+
+/**
+ * Same as awardXpUseCase, but throws when the award could not be queued instead of
+ * dropping it. For deliveries that are marked done afterwards and retried otherwise.
+ */
+export async function awardXpOrThrowUseCase(input: AwardXpInput): Promise<void> {
+  if (input.userRole !== 'colaborador') return
+
+  await enqueueGamificationEventOrThrow(buildAwardJob(input))
+}
+
+function buildAwardJob(input: AwardXpInput): GamificationJobData {
+  return {
     userId: input.userId,
     action: input.action,
     xp: input.xp,
     stars: input.stars ?? 0,
+    sourceType: input.source?.type,
+    sourceId: input.source?.id,
+    idempotencyKey: input.idempotencyKey ?? buildAwardIdempotencyKey(input),
     context: input.context,
-  })
+  }
 }
-
-// XP reward table (matches frontend gamification config)
-export const XP_REWARDS = {
-  acessar_plataforma: 10,
-  registrar_humor: 20,
-  criar_post: 30,
-  comentar_post: 10,
-  reagir_post: 5,
-  dar_feedback: 50,
-  responder_pesquisa: 40,
-  completar_treinamento: 100,
-  participar_evento: 80,
-  completar_missao: 50,
-} as const
-
-export const STAR_REWARDS = {
-  acessar_plataforma: 0,
-  registrar_humor: 0,
-  criar_post: 1,
-  comentar_post: 0,
-  reagir_post: 0,
-  dar_feedback: 2,
-  responder_pesquisa: 2,
-  completar_treinamento: 5,
-  participar_evento: 3,
-  completar_missao: 1,
-} as const
@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { redis, LEVEL_CURVE_CACHE_KEY, REWARD_RULES_TTL } from '../../infrastructure/cache/redis.client.js'
+import {
+  DEFAULT_LEVEL_CURVE,
+  calculateLevel,
+  calculateXpForNextLevel,
+  getLevelThreshold,
+  getLevelTitle,
+  type LevelCurve,
+} from '../../shared/utils/level-calculator.js'
+
+const levelTitleSchema = z.object({
+  level: z.number().int().min(1),
+  title: z.string().min(1).max(60),
+  badge: z.string().max(500).nullish(),
+})
+
+export const levelCurveSchema = z.object({
+  mode: z.enum(['thresholds', 'formula']),
+  thresholds: z.array(z.number().int().min(0)).max(200).default([])
+    .refine(t => t.length === 0 || t[0] === 0, 'Level 1 threshold must be 0')
+    .refine(t => t.every((xp, i) => i === 0 || xp > t[i - 1]), 'Thresholds must be strictly increasing'),
+  baseXp: z.number().int().min(1).max(1_000_000).default(DEFAULT_LEVEL_CURVE.baseXp),
+  exponent: z.number().min(1).max(4).default(DEFAULT_LEVEL_CURVE.exponent),
+  maxLevel: z.number().int().min(2).max(1000).nullable().default(null),
+  titles: z.array(levelTitleSchema).max(200).default([]),
+}).refine(c => c.mode !== 'thresholds' || c.thresholds.length >= 2, {
+  message: 'Threshold mode requires at least 2 levels',
+  path: ['thresholds'],
+})
+
+type LevelCurveRow = {
+  mode: string
+  thresholds: number[]
+  baseXp: number
+  exponent: number
+  maxLevel: number | null
+  titles: unknown
+}
+
+function toLevelCurve(row: LevelCurveRow | null): LevelCurve {
+  if (!row) return DEFAULT_LEVEL_CURVE
+  const titles = z.array(levelTitleSchema).safeParse(row.titles)
+  return {
+    mode: row.mode === 'formula' ? 'formula' : 'thresholds',
+    thresholds: row.thresholds.length >= 2 ? row.thresholds : DEFAULT_LEVEL_CURVE.thresholds,
+    baseXp: row.baseXp,
+    exponent: row.exponent,
+    maxLevel: row.maxLevel,
+    titles: titles.success ? titles.data.sort((a, b) => a.level - b.level) : [],
+  }
+}
+
+async function cacheCurve(curve: LevelCurve): Promise<void> {
+  try {
+    await redis.set(LEVEL_CURVE_CACHE_KEY, JSON.stringify(curve), 'EX', REWARD_RULES_TTL)
+  } catch {
+    // Redis unavailable, next read goes to the database
+  }
+}
+
+/**
+ * Active level curve: Redis cache, then level_curve_settings, then the built-in table.
+ */
+export async function getLevelCurveUseCase(): Promise<LevelCurve> {
+  try {
+    const cached = await redis.get(LEVEL_CURVE_CACHE_KEY)
+    if (cached) return JSON.parse(cached) as LevelCurve
+  } catch {
+    // Redis unavailable, fall through to the database
+  }
+
+  const row = await prisma.levelCurveSettings.findUnique({ where: { id: 'singleton' } })
+  const curve = toLevelCurve(row)
+  await cacheCurve(curve)
+  return curve
+}
+
+/**
+ * Levels 1..upTo with their XP threshold and title, for the admin preview and frontend.
+ */
+export function buildLevelTable(curve: LevelCurve, upTo: number) {
+  const last = curve.maxLevel !== null ? Math.min(upTo, curve.maxLevel) : upTo
+  return Array.from({ length: last }, (_, i) => {
+    const level = i + 1
+    const title = getLevelTitle(level, curve)
+    return {
+      level,
+      xp: getLevelThreshold(level, curve),
+      title: title?.title ?? null,
+      badge: title?.badge ?? null,
+    }
+  })
+}
+
+export async function updateLevelCurveUseCase(input: z.infer<typeof levelCurveSchema>, actorId: string) {
+  const before = await getLevelCurveUseCase()
+
+  const row = await prisma.levelCurveSettings.upsert({
+    where: { id: 'singleton' },
+    create: { id: 'singleton', ...input },
+    update: input,
+  })
+  const curve = toLevelCurve(row)
+
+  await prisma.auditLog.create({
+    data: {
+      actorId,
+      action: 'gamification.levels.update',
+      resourceType: 'level_curve_settings',
+      resourceId: row.id,
+      metadata: JSON.parse(JSON.stringify({ before, after: curve })),
+    },
+  })
+
+  await cacheCurve(curve)
+  return curve
+}
+
+const RECALC_BATCH_SIZE = 500
+
+/**
+ * Recompute nivel/xpProximo of every user against the active curve. No level-up
+ * notifications are sent: a curve change is not an achievement.
+ */
+export async function recalculateUserLevelsUseCase(actorId: string) {
+  const curve = await getLevelCurveUseCase()
+  let cursor: string | undefined
+  let scanned = 0
+  let promoted = 0
+  let demoted = 0
+  let unchanged = 0
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      take: RECALC_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+      select: { id: true, xp: true, nivel: true, xpProximo: true },
+    })
+    if (users.length === 0) break
+
+    const updates = []
+    for (const user of users) {
+      const nivel = calculateLevel(user.xp, curve)
+      const xpProximo = calculateXpForNextLevel(nivel, curve)
+      if (nivel === user.nivel && xpProximo === user.xpProximo) {
+        unchanged++
+        continue
+      }
+      if (nivel > user.nivel) promoted++
+      if (nivel < user.nivel) demoted++
+      updates.push(prisma.user.update({ where: { id: user.id }, data: { nivel, xpProximo } }))
+    }
+    if (updates.length > 0) await prisma.$transaction(updates)
+
+    scanned += users.length
+    cursor = users[users.length - 1].id
+  }
+
+  const summary = { scanned, promoted, demoted, unchanged }
+
+  await prisma.auditLog.create({
+    data: {
+      actorId,
+      action: 'gamification.levels.recalculate',
+      resourceType: 'user',
+      metadata: summary,
+    },
+  })
+
+  return summary
+}
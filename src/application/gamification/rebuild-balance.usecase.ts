@@ -0,0 +1,72 @@
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { calculateLevel, calculateXpForNextLevel } from '../../shared/utils/level-calculator.js'
+import { NotFoundError } from '../../shared/errors/app-error.js'
+import { getLevelCurveUseCase } from './level-curve.usecase.js'
+import { recordLeaderboardXp } from '../ranking/leaderboard.usecase.js'
+
+// Action of the migration-generated entry holding pre-ledger balances
+export const LEDGER_OPENING_ACTION = 'saldo_inicial'
+
+/**
+ * Recompute User.xp/estrelas/nivel/xpProximo from the sum of the user's ledger entries.
+ * The user row is locked first, so an award committing meanwhile (it updates the same
+ * row in the same transaction as its ledger entry) waits and lands on the rebuilt balance.
+ */
+export async function rebuildUserBalanceUseCase(userId: string, actorId: string) {
+  const curve = await getLevelCurveUseCase()
+
+  const { user, updated, xp, estrelas } = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT 1 FROM "users" WHERE "id" = ${userId} FOR UPDATE`
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, xp: true, estrelas: true, nivel: true, departamento: true, managerId: true },
+    })
+    if (!user) throw new NotFoundError('User', userId)
+
+    const totals = await tx.xpLedgerEntry.aggregate({
+      where: { userId },
+      _sum: { xpDelta: true, starsDelta: true },
+      _count: true,
+    })
+
+    const xp = totals._sum.xpDelta ?? 0
+    const estrelas = totals._sum.starsDelta ?? 0
+    const nivel = calculateLevel(xp, curve)
+
+    const updated = await tx.user.update({
+      where: { id: userId },
+      data: { xp, estrelas, nivel, xpProximo: calculateXpForNextLevel(nivel, curve) },
+      select: { id: true, xp: true, estrelas: true, nivel: true, xpProximo: true },
+    })
+
+    await tx.auditLog.create({
+      data: {
+        actorId,
+        action: 'xp_ledger.rebuild',
+        resourceType: 'user',
+        resourceId: userId,
+        metadata: {
+          before: { xp: user.xp, estrelas: user.estrelas, nivel: user.nivel },
+          after: { xp, estrelas, nivel },
+          entries: totals._count,
+        },
+      },
+    })
+
+    return { user, updated, xp, estrelas }
+  })
+
+  if (user.role === 'colaborador') {
+    try {
+      // Lifetime sets only: the corrected XP is not attributed to any week/month window
+      await recordLeaderboardXp({ user, xp, xpDelta: 0 })
+    } catch {
+      // Redis unavailable, leaderboard catches up on the next award
+    }
+  }
+
+  return {
+    ...updated,
+    drift: { xp: xp - user.xp, estrelas: estrelas - user.estrelas },
+  }
+}
@@ -0,0 +1,94 @@
+import type { UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { redis, DAILY_ACCESS_PREFIX, DAILY_ACCESS_TTL } from '../../infrastructure/cache/redis.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { toLocalDateString, addDays, resolveTimeZone } from '../../shared/utils/date.js'
+import { awardXpUseCase } from './award-xp.usecase.js'
+import { getActionReward } from './reward-rules.usecase.js'
+
+export const STREAK_MILESTONES = [3, 7, 14, 30, 60, 100, 180, 365]
+
+/**
+ * Record the user's access for the current day in their timezone, update the streak
+ * (reset after a missed day) and award the daily access XP once per day.
+ * Called on login, refresh and every authenticated request; a Redis marker keeps
+ * repeat calls within the day off the database.
+ */
+export async function registerDailyAccessUseCase(
+  user: { id: string; role: UserRole; timezone?: string | null },
+  now: Date = new Date(),
+): Promise<{ registered: boolean; streak: number | null }> {
+  const today = toLocalDateString(now, resolveTimeZone(user.timezone))
+  const markerKey = `${DAILY_ACCESS_PREFIX}${user.id}:${today}`
+
+  try {
+    const first = await redis.set(markerKey, '1', 'EX', DAILY_ACCESS_TTL, 'NX')
+    if (first === null) return { registered: false, streak: null }
+  } catch {
+    // Redis unavailable, the conditional update below still keeps this idempotent
+  }
+
+  try {
+    return await recordDailyAccess(user, today)
+  } catch (err) {
+    // Let the next request retry instead of skipping the day until the marker expires
+    try {
+      await redis.del(markerKey)
+    } catch {
+      // Redis unavailable, the marker was probably not set either
+    }
+    throw err
+  }
+}
+
+async function recordDailyAccess(
+  user: { id: string; role: UserRole },
+  today: string,
+): Promise<{ registered: boolean; streak: number | null }> {
+  const tracking = await prisma.engagementTracking.upsert({
+    where: { userId: user.id },
+    create: { userId: user.id },
+    update: {},
+  })
+
+  // Same day already recorded, or a later day (timezone change) - nothing to do
+  if (tracking.lastAccessDate && tracking.lastAccessDate >= today) {
+    return { registered: false, streak: tracking.consecutiveStreak }
+  }
+
+  const streak = tracking.lastAccessDate === addDays(today, -1) ? tracking.consecutiveStreak + 1 : 1
+
+  // Guarded on lastAccessDate so concurrent first requests record the day once
+  const { count } = await prisma.engagementTracking.updateMany({
+    where: { userId: user.id, lastAccessDate: tracking.lastAccessDate },
+    data: {
+      dailyAccess: { push: today },
+      consecutiveStreak: streak,
+      lastAccessDate: today,
+    },
+  })
+  if (count === 0) return { registered: false, streak: null }
+
+  const reward = await getActionReward('acessar_plataforma')
+  await awardXpUseCase({
+    userId: user.id,
+    userRole: user.role,
+    action: 'acessar_plataforma',
+    xp: reward.xp,
+    stars: reward.stars,
+    source: { type: 'daily_access', id: today },
+    context: { date: today, streak },
+  })
+
+  if (user.role === 'colaborador' && STREAK_MILESTONES.includes(streak)) {
+    await enqueueNotification({
+      userId: user.id,
+      type: 'achievement',
+      title: `Sequência de ${streak} dias!`,
+      message: `Você acessou a plataforma por ${streak} dias seguidos. Continue assim!`,
+      data: { streak, date: today },
+    })
+  }
+
+  return { registered: true, streak }
+}
@@ -0,0 +1,182 @@
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { redis, REWARD_RULES_CACHE_KEY, REWARD_RULES_TTL } from '../../infrastructure/cache/redis.client.js'
+import { ConflictError, NotFoundError } from '../../shared/errors/app-error.js'
+
+// Type alias (not interface) so rule tables are assignable to Prisma Json inputs
+export type ActionReward = {
+  xp: number
+  stars: number
+}
+
+// Used until a super_admin persists the first version (matches frontend gamification config)
+export const DEFAULT_REWARD_RULES = {
+  acessar_plataforma: { xp: 10, stars: 0 },
+  registrar_humor: { xp: 20, stars: 0 },
+  criar_post: { xp: 30, stars: 1 },
+  comentar_post: { xp: 10, stars: 0 },
+  reagir_post: { xp: 5, stars: 0 },
+  dar_feedback: { xp: 50, stars: 2 },
+  responder_pesquisa: { xp: 40, stars: 2 },
+  completar_treinamento: { xp: 100, stars: 5 },
+  participar_evento: { xp: 80, stars: 3 },
+  completar_missao: { xp: 50, stars: 1 },
+} satisfies Record<string, ActionReward>
+
+export type RewardAction = keyof typeof DEFAULT_REWARD_RULES
+export type RewardRules = Record<RewardAction, ActionReward>
+
+export const REWARD_ACTIONS = Object.keys(DEFAULT_REWARD_RULES) as [RewardAction, ...RewardAction[]]
+
+export const actionRewardSchema = z.object({
+  xp: z.number().int().min(0).max(10000),
+  stars: z.number().int().min(0).max(1000),
+})
+
+// Stored rules are merged over the defaults so actions added later always resolve
+function normalizeRules(stored: unknown): RewardRules {
+  const parsed = z.record(z.string(), actionRewardSchema.partial()).safeParse(stored)
+  const rules = { ...DEFAULT_REWARD_RULES } as RewardRules
+  if (!parsed.success) return rules
+  for (const action of REWARD_ACTIONS) {
+    const override = parsed.data[action]
+    if (override) rules[action] = { ...rules[action], ...override }
+  }
+  return rules
+}
+
+async function loadActiveRuleSet() {
+  return prisma.gamificationRuleSet.findFirst({
+    where: { isActive: true },
+    orderBy: { version: 'desc' },
+  })
+}
+
+async function cacheRules(payload: { version: number | null; rules: RewardRules }): Promise<void> {
+  try {
+    await redis.set(REWARD_RULES_CACHE_KEY, JSON.stringify(payload), 'EX', REWARD_RULES_TTL)
+  } catch {
+    // Redis unavailable, next read goes to the database
+  }
+}
+
+/**
+ * Active reward table: Redis cache, then the active persisted version, then defaults.
+ */
+export async function getRewardRulesUseCase(): Promise<{ version: number | null; rules: RewardRules }> {
+  try {
+    const cached = await redis.get(REWARD_RULES_CACHE_KEY)
+    if (cached) {
+      const payload = JSON.parse(cached) as { version: number | null; rules: unknown }
+      return { version: payload.version, rules: normalizeRules(payload.rules) }
+    }
+  } catch {
+    // Redis unavailable, fall through to the database
+  }
+
+  const active = await loadActiveRuleSet()
+  const payload = { version: active?.version ?? null, rules: normalizeRules(active?.rules) }
+  await cacheRules(payload)
+  return payload
+}
+
+export async function getActionReward(action: RewardAction): Promise<ActionReward> {
+  const { rules } = await getRewardRulesUseCase()
+  return rules[action]
+}
+
+/**
+ * Serialize rule changes and re-read the active version under the lock, so an update is
+ * always merged over the version that is active when it commits. When the caller sends
+ * the version it edited, a change published in the meantime is refused with a conflict.
+ */
+async function lockActiveRuleSet(tx: Prisma.TransactionClient, expectedVersion?: number | null) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('gamification_rule_sets'))`
+  const current = await tx.gamificationRuleSet.findFirst({ where: { isActive: true }, orderBy: { version: 'desc' } })
+  if (expectedVersion !== undefined && (current?.version ?? null) !== expectedVersion) {
+    throw new ConflictError('The reward rules were changed by someone else; reload them and try again')
+  }
+  return current
+}
+
+/**
+ * Persist a new version of the reward table (merged over the current one) and activate it.
+ */
+export async function updateRewardRulesUseCase(input: {
+  rules: Partial<Record<RewardAction, ActionReward>>
+  note?: string
+  actorId: string
+  // Active version the caller edited (null when none was published yet)
+  expectedVersion?: number | null
+}) {
+  const { ruleSet, after } = await prisma.$transaction(async (tx) => {
+    const current = await lockActiveRuleSet(tx, input.expectedVersion)
+    const before = normalizeRules(current?.rules)
+    const after = { ...before, ...input.rules }
+
+    const latest = await tx.gamificationRuleSet.findFirst({ orderBy: { version: 'desc' }, select: { version: true } })
+    await tx.gamificationRuleSet.updateMany({ where: { isActive: true }, data: { isActive: false } })
+    const created = await tx.gamificationRuleSet.create({
+      data: {
+        version: (latest?.version ?? 0) + 1,
+        rules: after,
+        isActive: true,
+        note: input.note,
+        createdById: input.actorId,
+      },
+    })
+    await tx.auditLog.create({
+      data: {
+        actorId: input.actorId,
+        action: 'gamification.rules.update',
+        resourceType: 'gamification_rule_set',
+        resourceId: created.id,
+        metadata: {
+          version: created.version,
+          previousVersion: current?.version ?? null,
+          before,
+          after,
+          note: input.note ?? null,
+        },
+      },
+    })
+    return { ruleSet: created, after }
+  })
+
+  await cacheRules({ version: ruleSet.version, rules: after })
+  return { ...ruleSet, rules: after }
+}
+
+/**
+ * Re-activate a previous version (rollback).
+ */
+export async function activateRewardRulesVersionUseCase(version: number, actorId: string, expectedVersion?: number | null) {
+  const target = await prisma.gamificationRuleSet.findUnique({ where: { version } })
+  if (!target) throw new NotFoundError('GamificationRuleSet', String(version))
+
+  const rules = normalizeRules(target.rules)
+
+  await prisma.$transaction(async (tx) => {
+    const current = await lockActiveRuleSet(tx, expectedVersion)
+    await tx.gamificationRuleSet.updateMany({ where: { isActive: true }, data: { isActive: false } })
+    await tx.gamificationRuleSet.update({ where: { id: target.id }, data: { isActive: true } })
+    await tx.auditLog.create({
+      data: {
+        actorId,
+        action: 'gamification.rules.activate',
+        resourceType: 'gamification_rule_set',
+        resourceId: target.id,
+        metadata: {
+          version,
+          previousVersion: current?.version ?? null,
+          before: normalizeRules(current?.rules),
+          after: rules,
+        },
+      },
+    })
+  })
+
+  await cacheRules({ version, rules })
+  return { ...target, isActive: true, rules }
+}
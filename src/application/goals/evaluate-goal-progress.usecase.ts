@@ -0,0 +1,134 @@
+import type { CriterioAcao, PeriodoMeta } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+
+export interface EvaluateGoalProgressInput {
+  userId: string
+  action: string
+  context?: Record<string, unknown>
+  occurredAt?: Date
+}
+
+// Gamification actions → goal criteria (CriterioAcao)
+const CRITERIO_BY_ACTION: Record<string, CriterioAcao> = {
+  acessar_plataforma: 'interacao_recorrente',
+  registrar_humor: 'registro_humor',
+  criar_post: 'publicacao_feed',
+  reagir_post: 'curtida',
+  comentar_post: 'comentario',
+  dar_feedback: 'envio_feedback',
+  responder_pesquisa: 'resposta_pesquisa',
+  completar_treinamento: 'conclusao_treinamento',
+  completar_engajamento: 'participacao_trilha',
+  participar_evento: 'participacao_evento',
+}
+
+export function resolveCriterioAcao(action: string, context?: Record<string, unknown>): CriterioAcao | null {
+  // Lesson XP is awarded as completar_treinamento too; only whole course/training completions count
+  if (action === 'completar_treinamento' && context?.lessonId && !context.courseCompleted) {
+    return null
+  }
+  return CRITERIO_BY_ACTION[action] ?? null
+}
+
+/**
+ * Start of the PeriodoMeta window containing `date` (UTC).
+ * semanal = ISO week (Monday), mensal = calendar month, trimestral = calendar quarter.
+ */
+export function getPeriodStart(periodo: PeriodoMeta, date: Date): Date {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+
+  if (periodo === 'semanal') {
+    const start = new Date(Date.UTC(year, month, date.getUTCDate()))
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+    return start
+  }
+  if (periodo === 'mensal') {
+    return new Date(Date.UTC(year, month, 1))
+  }
+  return new Date(Date.UTC(year, month - (month % 3), 1))
+}
+
+export function calculateGoalPercentage(
+  criterios: Array<{ id: string; quantidadeMinima: number }>,
+  valores: Map<string, number>,
+): number {
+  if (criterios.length === 0) return 0
+  const sum = criterios.reduce((acc, c) => {
+    const ratio = Math.min(1, (valores.get(c.id) ?? 0) / c.quantidadeMinima)
+    return acc + ratio
+  }, 0)
+  return Math.round((sum / criterios.length) * 100)
+}
+
+/**
+ * Increment goal criteria matching a platform action for one user.
+ * Progress rows are created when a gestor activates the goal. Counters are incremented
+ * atomically since the gamification worker runs a user's jobs concurrently; the period
+ * reset is a conditional update on dataInicio so only one job resets a window.
+ */
+export async function evaluateGoalProgressUseCase(input: EvaluateGoalProgressInput): Promise<void> {
+  const acao = resolveCriterioAcao(input.action, input.context)
+  if (!acao) return
+
+  const occurredAt = input.occurredAt ?? new Date()
+
+  const progresses = await prisma.goalProgress.findMany({
+    where: {
+      userId: input.userId,
+      goal: { status: 'ativa', criterios: { some: { acao } } },
+    },
+    include: { goal: { include: { criterios: true } } },
+  })
+
+  for (const progress of progresses) {
+    const { goal } = progress
+    const periodStart = getPeriodStart(goal.periodo, occurredAt)
+    const matching = goal.criterios.filter(c => c.acao === acao)
+
+    const completedNow = await prisma.$transaction(async (tx) => {
+      const reset = await tx.goalProgress.updateMany({
+        where: { id: progress.id, dataInicio: { lt: periodStart } },
+        data: { dataInicio: periodStart, progresso: 0, concluida: false, dataConclusao: null },
+      })
+      if (reset.count > 0) {
+        await tx.goalCriterioProgress.updateMany({ where: { progressId: progress.id }, data: { valorAtual: 0 } })
+      }
+
+      const current = await tx.goalProgress.findUniqueOrThrow({ where: { id: progress.id } })
+      // A goal already completed in the current window stays completed
+      if (current.concluida) return false
+
+      for (const criterio of matching) {
+        await tx.goalCriterioProgress.upsert({
+          where: { progressId_criterioId: { progressId: progress.id, criterioId: criterio.id } },
+          create: { progressId: progress.id, criterioId: criterio.id, valorAtual: 1 },
+          update: { valorAtual: { increment: 1 } },
+        })
+      }
+
+      const counters = await tx.goalCriterioProgress.findMany({ where: { progressId: progress.id } })
+      const valores = new Map(counters.map(c => [c.criterioId, c.valorAtual]))
+      const progresso = calculateGoalPercentage(goal.criterios, valores)
+      const concluida = goal.criterios.every(c => (valores.get(c.id) ?? 0) >= c.quantidadeMinima)
+
+      const { count } = await tx.goalProgress.updateMany({
+        where: { id: progress.id, concluida: false },
+        data: { progresso, concluida, dataConclusao: concluida ? occurredAt : null },
+      })
+      return concluida && count > 0
+    })
+
+    if (completedNow) {
+      await enqueueNotification({
+        userId: input.userId,
+        type: 'achievement',
+        title: 'Meta concluída!',
+        message: `Parabéns! Você concluiu a meta "${goal.nome}".`,
+        data: { goalId: goal.id, periodo: goal.periodo, periodStart: periodStart.toISOString() },
+      })
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { calculateGoalPercentage, getPeriodStart, resolveCriterioAcao } from './evaluate-goal-progress.usecase.js'
+
+/**
+ * Count a member's action toward the team goals (escopo=time) activated by their gestor.
+ * Counters are incremented atomically since teammates act concurrently; the period reset
+ * is a conditional update on dataInicio so only one job resets a window. The team and
+ * the gestor are notified once when the shared target is reached.
+ */
+export async function evaluateTeamGoalProgressUseCase(input: {
+  userId: string
+  managerId: string | null
+  action: string
+  context?: Record<string, unknown>
+  occurredAt?: Date
+}): Promise<void> {
+  if (!input.managerId) return
+  const acao = resolveCriterioAcao(input.action, input.context)
+  if (!acao) return
+
+  const occurredAt = input.occurredAt ?? new Date()
+
+  const progresses = await prisma.teamGoalProgress.findMany({
+    where: {
+      gestorId: input.managerId,
+      goal: { status: 'ativa', escopo: 'time', criterios: { some: { acao } } },
+    },
+    include: { goal: { include: { criterios: true } } },
+  })
+
+  for (const progress of progresses) {
+    const { goal } = progress
+    const periodStart = getPeriodStart(goal.periodo, occurredAt)
+    const matching = goal.criterios.filter(c => c.acao === acao)
+
+    const completedNow = await prisma.$transaction(async (tx) => {
+      const reset = await tx.teamGoalProgress.updateMany({
+        where: { id: progress.id, dataInicio: { lt: periodStart } },
+        data: { dataInicio: periodStart, progresso: 0, concluida: false, dataConclusao: null },
+      })
+      if (reset.count > 0) {
+        await tx.teamGoalCriterioProgress.updateMany({ where: { progressId: progress.id }, data: { valorAtual: 0 } })
+      }
+
+      const current = await tx.teamGoalProgress.findUniqueOrThrow({ where: { id: progress.id } })
+      // A goal already completed in the current window stays completed
+      if (current.concluida) return false
+
+      for (const criterio of matching) {
+        await tx.teamGoalCriterioProgress.upsert({
+          where: { progressId_criterioId: { progressId: progress.id, criterioId: criterio.id } },
+          create: { progressId: progress.id, criterioId: criterio.id, valorAtual: 1 },
+          update: { valorAtual: { increment: 1 } },
+        })
+      }
+
+      const counters = await tx.teamGoalCriterioProgress.findMany({ where: { progressId: progress.id } })
+      const valores = new Map(counters.map(c => [c.criterioId, c.valorAtual]))
+      const progresso = calculateGoalPercentage(goal.criterios, valores)
+      const concluida = goal.criterios.every(c => (valores.get(c.id) ?? 0) >= c.quantidadeMinima)
+
+      const { count } = await tx.teamGoalProgress.updateMany({
+        where: { id: progress.id, concluida: false },
+        data: { progresso, concluida, dataConclusao: concluida ? occurredAt : null },
+      })
+      return concluida && count > 0
+    })
+
+    if (completedNow) {
+      const team = await prisma.user.findMany({
+        where: { managerId: progress.gestorId, isActive: true },
+        select: { id: true },
+      })
+      for (const member of [...team, { id: progress.gestorId }]) {
+        await enqueueNotification({
+          userId: member.id,
+          type: 'achievement',
+          title: 'Meta do time concluída!',
+          message: `Parabéns! O time concluiu a meta "${goal.nome}".`,
+          data: { goalId: goal.id, gestorId: progress.gestorId, periodo: goal.periodo, periodStart: periodStart.toISOString() },
+        })
+      }
+    }
+  }
+}
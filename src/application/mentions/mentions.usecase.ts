@@ -0,0 +1,158 @@
+import type { MentionSourceType } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+
+// Keeps a single post or comment from notifying half the company
+export const MAX_MENTIONS_PER_CONTENT = 20
+
+// "@maria.silva" - the handle is the local part of the user's email; a trailing dot ends the sentence
+const MENTION_PATTERN = /(?<![\w@.])@([a-z0-9](?:[a-z0-9._-]*[a-z0-9])?)/gi
+
+export function getMentionHandle(email: string): string {
+  return email.split('@')[0].toLowerCase()
+}
+
+export function parseMentionHandles(content: string): string[] {
+  const handles = [...content.matchAll(MENTION_PATTERN)].map(m => m[1].toLowerCase())
+  return [...new Set(handles)].slice(0, MAX_MENTIONS_PER_CONTENT)
+}
+
+/**
+ * Resolve the @handles in a text to active user ids. Handles shared by several users
+ * (same local part on different domains) are ambiguous and ignored.
+ */
+export async function resolveMentions(content: string): Promise<string[]> {
+  const handles = parseMentionHandles(content)
+  if (handles.length === 0) return []
+
+  const users = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      OR: handles.map(h => ({ email: { startsWith: `${h}@`, mode: 'insensitive' as const } })),
+    },
+    select: { id: true, email: true },
+  })
+
+  const byHandle = new Map<string, string[]>()
+  for (const user of users) {
+    const handle = getMentionHandle(user.email)
+    byHandle.set(handle, [...(byHandle.get(handle) ?? []), user.id])
+  }
+  return handles.flatMap(h => (byHandle.get(h)?.length === 1 ? byHandle.get(h)! : []))
+}
+
+/**
+ * Store the mentions of a post, comment or feedback, replacing those of a previous
+ * version of the content. New mentions are notified right away unless `notify` is
+ * false (feedbacks awaiting approval), in which case notifyPendingMentionsUseCase
+ * delivers them later. Authors mentioning themselves are ignored.
+ */
+export async function syncMentionsUseCase(input: {
+  sourceType: MentionSourceType
+  sourceId: string
+  authorId: string
+  content: string
+  notify?: boolean
+  anonymous?: boolean
+  data?: Record<string, unknown>
+}): Promise<string[]> {
+  const userIds = (await resolveMentions(input.content)).filter(id => id !== input.authorId)
+
+  await prisma.$transaction([
+    prisma.mention.deleteMany({
+      where: { sourceType: input.sourceType, sourceId: input.sourceId, mentionedUserId: { notIn: userIds } },
+    }),
+    prisma.mention.createMany({
+      data: userIds.map(mentionedUserId => ({
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        mentionedUserId,
+        authorId: input.authorId,
+      })),
+      skipDuplicates: true,
+    }),
+  ])
+
+  if (input.notify !== false) {
+    await notifyPendingMentionsUseCase({
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+      anonymous: input.anonymous,
+      data: input.data,
+    })
+  }
+  return userIds
+}
+
+const SOURCE_LABELS: Record<MentionSourceType, string> = {
+  feed_post: 'uma publicação',
+  feed_comment: 'um comentário',
+  feedback: 'um feedback público',
+}
+
+/**
+ * Send the `mention` notification for every mention of a source not handled yet,
+ * skipping users who turned mentions off in their notification preferences.
+ */
+export async function notifyPendingMentionsUseCase(input: {
+  sourceType: MentionSourceType
+  sourceId: string
+  anonymous?: boolean
+  data?: Record<string, unknown>
+}): Promise<number> {
+  const pending = await prisma.mention.findMany({
+    where: { sourceType: input.sourceType, sourceId: input.sourceId, notifiedAt: null },
+    include: { author: { select: { nome: true } } },
+  })
+  if (pending.length === 0) return 0
+
+  const optedOut = await prisma.notificationPreference.findMany({
+    where: { userId: { in: pending.map(m => m.mentionedUserId) }, mencoes: false },
+    select: { userId: true },
+  })
+  const muted = new Set(optedOut.map(p => p.userId))
+
+  let sent = 0
+  for (const mention of pending) {
+    if (!muted.has(mention.mentionedUserId)) {
+      const author = input.anonymous ? 'Alguém' : mention.author.nome
+      await enqueueNotification({
+        userId: mention.mentionedUserId,
+        type: 'mention',
+        title: 'Você foi mencionado',
+        message: `${author} mencionou você em ${SOURCE_LABELS[mention.sourceType]}.`,
+        data: {
+          ...input.data,
+          sourceType: mention.sourceType,
+          sourceId: mention.sourceId,
+          ...(input.anonymous ? {} : { authorId: mention.authorId }),
+        },
+      })
+      sent++
+    }
+    await prisma.mention.update({ where: { id: mention.id }, data: { notifiedAt: new Date() } })
+  }
+  return sent
+}
+
+/**
+ * Attach the resolved mentions (id, nome, handle) to each item of a list.
+ */
+export async function attachMentions<T extends { id: string }>(sourceType: MentionSourceType, items: T[]) {
+  const mentions = items.length === 0
+    ? []
+    : await prisma.mention.findMany({
+      where: { sourceType, sourceId: { in: items.map(i => i.id) } },
+      select: {
+        sourceId: true,
+        mentionedUser: { select: { id: true, nome: true, email: true, avatar: true } },
+      },
+    })
+
+  return items.map(item => ({
+    ...item,
+    mentions: mentions
+      .filter(m => m.sourceId === item.id)
+      .map(({ mentionedUser: { email, ...user } }) => ({ ...user, handle: getMentionHandle(email) })),
+  }))
+}
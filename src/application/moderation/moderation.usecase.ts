@@ -0,0 +1,339 @@
+import { Prisma, type HiddenReason, type ReportReason, type ReportTargetType, type UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../shared/errors/app-error.js'
+import { notifyPendingMentionsUseCase } from '../mentions/mentions.usecase.js'
+
+export type ModerationAction = 'hide' | 'restore' | 'delete'
+
+// Hidden content that still waits for a moderator; content hidden by one is settled
+const AWAITING_REVIEW: HiddenReason[] = ['denuncias', 'palavras_proibidas']
+
+// Same order as the RBAC middleware: moderators cannot act on content by a higher role
+const ROLE_RANK: Record<UserRole, number> = {
+  colaborador: 1,
+  gestor: 2,
+  super_admin: 3,
+}
+
+type ModerationTarget = {
+  id: string
+  userId: string
+  authorRole: UserRole
+  postId: string | null
+  hiddenAt: Date | null
+  hiddenReason: HiddenReason | null
+  deletedAt: Date | null
+}
+
+export async function getModerationSettings() {
+  return prisma.moderationSettings.upsert({
+    where: { id: 'singleton' },
+    create: { id: 'singleton' },
+    update: {},
+  })
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+/**
+ * Banned words (or phrases) found in a text, matched as whole words ignoring case and accents.
+ */
+export function findBannedWords(content: string, bannedWords: string[]): string[] {
+  const words = normalizeText(content).split(/[^a-z0-9]+/).filter(Boolean)
+  const padded = ` ${words.join(' ')} `
+  return bannedWords.filter((banned) => {
+    const normalized = normalizeText(banned).split(/[^a-z0-9]+/).filter(Boolean).join(' ')
+    return normalized.length > 0 && padded.includes(` ${normalized} `)
+  })
+}
+
+/**
+ * Run new or edited content through the banned-word filter. Depending on the settings
+ * it is refused (ValidationError) or accepted hidden; `hidden` tells the caller which.
+ */
+export async function screenContentUseCase(content: string): Promise<{ hidden: boolean }> {
+  const settings = await getModerationSettings()
+  if (findBannedWords(content, settings.bannedWords).length === 0) return { hidden: false }
+
+  if (settings.bannedWordAction === 'rejeitar') {
+    throw new ValidationError('Content contains words that are not allowed')
+  }
+  return { hidden: true }
+}
+
+async function findTarget(targetType: ReportTargetType, targetId: string): Promise<ModerationTarget | null> {
+  const select = {
+    id: true, userId: true, hiddenAt: true, hiddenReason: true, deletedAt: true,
+    user: { select: { role: true } },
+  }
+  if (targetType === 'feed_post') {
+    const post = await prisma.feedPost.findUnique({ where: { id: targetId }, select })
+    if (!post) return null
+    const { user, ...rest } = post
+    return { ...rest, authorRole: user.role, postId: null }
+  }
+  const comment = await prisma.feedComment.findUnique({ where: { id: targetId }, select: { ...select, postId: true } })
+  if (!comment) return null
+  const { user, ...rest } = comment
+  return { ...rest, authorRole: user.role }
+}
+
+type TargetUpdate = { hiddenAt?: Date | null; hiddenReason?: HiddenReason | null; deletedAt?: Date }
+
+async function updateTarget(
+  tx: Prisma.TransactionClient,
+  targetType: ReportTargetType,
+  targetId: string,
+  where: { hiddenAt?: null },
+  data: TargetUpdate,
+): Promise<number> {
+  const result = targetType === 'feed_post'
+    ? await tx.feedPost.updateMany({ where: { id: targetId, deletedAt: null, ...where }, data })
+    : await tx.feedComment.updateMany({ where: { id: targetId, deletedAt: null, ...where }, data })
+  return result.count
+}
+
+/**
+ * Report a post or comment. Once the pending reports reach the configured threshold the
+ * content is hidden until a moderator reviews it.
+ */
+export async function reportContentUseCase(input: {
+  reporterId: string
+  targetType: ReportTargetType
+  targetId: string
+  reason: ReportReason
+  details?: string
+}) {
+  const target = await findTarget(input.targetType, input.targetId)
+  if (!target || target.deletedAt) throw new NotFoundError(input.targetType === 'feed_post' ? 'Post' : 'Comment', input.targetId)
+  if (target.userId === input.reporterId) throw new ForbiddenError('Cannot report your own content')
+
+  let report
+  try {
+    report = await prisma.contentReport.create({
+      data: {
+        targetType: input.targetType,
+        targetId: input.targetId,
+        reporterId: input.reporterId,
+        reason: input.reason,
+        details: input.details,
+      },
+    })
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw new ConflictError('You already reported this content')
+    }
+    throw err
+  }
+
+  const settings = await getModerationSettings()
+  const pending = await prisma.contentReport.count({
+    where: { targetType: input.targetType, targetId: input.targetId, status: 'pendente' },
+  })
+
+  let hidden = false
+  if (settings.autoHideThreshold > 0 && pending >= settings.autoHideThreshold) {
+    hidden = await prisma.$transaction(async (tx) => {
+      const count = await updateTarget(tx, input.targetType, input.targetId, { hiddenAt: null }, {
+        hiddenAt: new Date(),
+        hiddenReason: 'denuncias',
+      })
+      if (count === 0) return false
+
+      await tx.auditLog.create({
+        data: {
+          actorId: null,
+          action: 'moderation.auto_hide',
+          resourceType: input.targetType,
+          resourceId: input.targetId,
+          metadata: { pendingReports: pending, threshold: settings.autoHideThreshold },
+        },
+      })
+      return true
+    })
+  }
+
+  return { report, hidden }
+}
+
+/**
+ * Moderator decision on a post or comment: hide it, restore it (dismissing the pending
+ * reports) or delete it. Pending reports are closed and the action is audited.
+ * Moderators cannot act on their own content or on content by a higher role.
+ */
+export async function moderateContentUseCase(input: {
+  action: ModerationAction
+  targetType: ReportTargetType
+  targetId: string
+  actorId: string
+  actorRole: UserRole
+  note?: string
+}) {
+  const target = await findTarget(input.targetType, input.targetId)
+  if (!target || target.deletedAt) throw new NotFoundError(input.targetType === 'feed_post' ? 'Post' : 'Comment', input.targetId)
+  if (target.userId === input.actorId) throw new ForbiddenError('Cannot moderate your own content')
+  if (ROLE_RANK[target.authorRole] > ROLE_RANK[input.actorRole]) {
+    throw new ForbiddenError('Cannot moderate content by a higher role')
+  }
+
+  const now = new Date()
+  const data: TargetUpdate = input.action === 'hide'
+    ? { hiddenAt: target.hiddenAt ?? now, hiddenReason: 'moderacao' }
+    : input.action === 'restore'
+      ? { hiddenAt: null, hiddenReason: null }
+      : { deletedAt: now }
+
+  const reports = await prisma.$transaction(async (tx) => {
+    await updateTarget(tx, input.targetType, input.targetId, {}, data)
+    const { count } = await tx.contentReport.updateMany({
+      where: { targetType: input.targetType, targetId: input.targetId, status: 'pendente' },
+      data: {
+        status: input.action === 'restore' ? 'descartada' : 'resolvida',
+        resolvedById: input.actorId,
+        resolvedAt: now,
+      },
+    })
+    await tx.auditLog.create({
+      data: {
+        actorId: input.actorId,
+        action: `moderation.${input.action}`,
+        resourceType: input.targetType,
+        resourceId: input.targetId,
+        metadata: {
+          note: input.note ?? null,
+          closedReports: count,
+          previousHiddenReason: target.hiddenReason,
+          authorId: target.userId,
+        },
+      },
+    })
+    return count
+  })
+
+  const postId = target.postId ?? target.id
+  if (input.action === 'restore' && target.hiddenAt) {
+    // Mentions held back while the content was hidden by the banned-word filter
+    await notifyPendingMentionsUseCase({
+      sourceType: input.targetType,
+      sourceId: input.targetId,
+      data: input.targetType === 'feed_post' ? { postId } : { postId, commentId: input.targetId },
+    })
+  }
+
+  if (input.action !== 'restore') {
+    const what = input.targetType === 'feed_post' ? 'Sua publicação' : 'Seu comentário'
+    await enqueueNotification({
+      userId: target.userId,
+      type: 'system',
+      title: 'Conteúdo moderado',
+      message: `${what} foi ${input.action === 'hide' ? 'ocultado' : 'removido'} pela moderação.`,
+      data: { targetType: input.targetType, targetId: input.targetId, postId, note: input.note },
+    })
+  }
+
+  return { action: input.action, closedReports: reports }
+}
+
+/**
+ * Items waiting for a moderator: content with pending reports or hidden automatically,
+ * most reported first, then oldest report first.
+ */
+export async function getModerationQueueUseCase(input: {
+  targetType?: ReportTargetType
+  skip: number
+  take: number
+}) {
+  const types: ReportTargetType[] = input.targetType ? [input.targetType] : ['feed_post', 'feed_comment']
+
+  const [pending, hiddenPosts, hiddenComments] = await Promise.all([
+    prisma.contentReport.groupBy({
+      by: ['targetType', 'targetId'],
+      where: { status: 'pendente', targetType: { in: types } },
+      _count: { _all: true },
+      _min: { createdAt: true },
+    }),
+    types.includes('feed_post')
+      ? prisma.feedPost.findMany({
+        where: { deletedAt: null, hiddenReason: { in: AWAITING_REVIEW } },
+        select: { id: true, hiddenAt: true },
+      })
+      : [],
+    types.includes('feed_comment')
+      ? prisma.feedComment.findMany({
+        where: { deletedAt: null, hiddenReason: { in: AWAITING_REVIEW } },
+        select: { id: true, hiddenAt: true },
+      })
+      : [],
+  ])
+
+  const entries = new Map<string, { targetType: ReportTargetType; targetId: string; pendingReports: number; since: Date }>()
+  for (const g of pending) {
+    entries.set(`${g.targetType}:${g.targetId}`, {
+      targetType: g.targetType,
+      targetId: g.targetId,
+      pendingReports: g._count._all,
+      since: g._min.createdAt ?? new Date(),
+    })
+  }
+  const hidden = [
+    ...hiddenPosts.map(p => ({ ...p, targetType: 'feed_post' as const })),
+    ...hiddenComments.map(c => ({ ...c, targetType: 'feed_comment' as const })),
+  ]
+  for (const h of hidden) {
+    const key = `${h.targetType}:${h.id}`
+    if (!entries.has(key)) {
+      entries.set(key, { targetType: h.targetType, targetId: h.id, pendingReports: 0, since: h.hiddenAt ?? new Date() })
+    }
+  }
+
+  // Content deleted by its author leaves the queue
+  const byType = (type: ReportTargetType) => [...entries.values()].filter(e => e.targetType === type).map(e => e.targetId)
+  const [posts, comments] = await Promise.all([
+    prisma.feedPost.findMany({
+      where: { id: { in: byType('feed_post') }, deletedAt: null },
+      select: {
+        id: true, content: true, hiddenAt: true, hiddenReason: true, createdAt: true,
+        user: { select: { id: true, nome: true, avatar: true, departamento: true } },
+      },
+    }),
+    prisma.feedComment.findMany({
+      where: { id: { in: byType('feed_comment') }, deletedAt: null },
+      select: {
+        id: true, postId: true, content: true, hiddenAt: true, hiddenReason: true, createdAt: true,
+        user: { select: { id: true, nome: true, avatar: true, departamento: true } },
+      },
+    }),
+  ])
+  const contents = new Map<string, unknown>([
+    ...posts.map(p => [`feed_post:${p.id}`, p] as const),
+    ...comments.map(c => [`feed_comment:${c.id}`, c] as const),
+  ])
+
+  const queue = [...entries.entries()]
+    .filter(([key]) => contents.has(key))
+    .map(([, entry]) => entry)
+    .sort((a, b) => b.pendingReports - a.pendingReports || a.since.getTime() - b.since.getTime())
+
+  const page = queue.slice(input.skip, input.skip + input.take)
+  const reasons = page.length === 0
+    ? []
+    : await prisma.contentReport.groupBy({
+      by: ['targetType', 'targetId', 'reason'],
+      where: { status: 'pendente', OR: page.map(e => ({ targetType: e.targetType, targetId: e.targetId })) },
+      _count: { _all: true },
+    })
+
+  return {
+    total: queue.length,
+    items: page.map(entry => ({
+      ...entry,
+      content: contents.get(`${entry.targetType}:${entry.targetId}`),
+      reasons: Object.fromEntries(reasons
+        .filter(r => r.targetType === entry.targetType && r.targetId === entry.targetId)
+        .map(r => [r.reason, r._count._all])),
+    })),
+  }
+}
@@ -0,0 +1,260 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import {
+  redis,
+  getLeaderboard,
+  getUserRank,
+  LEADERBOARD_KEY,
+  LEADERBOARD_DEPT_PREFIX,
+  LEADERBOARD_TEAM_PREFIX,
+  LEADERBOARD_PERIOD_PREFIX,
+} from '../../infrastructure/cache/redis.client.js'
+import { toLocalDateString, startOfLocalDay, addDays, getDayOfWeek, resolveTimeZone } from '../../shared/utils/date.js'
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all'
+
+export type LeaderboardScope =
+  | { type: 'global' }
+  | { type: 'department'; departamento: string }
+  | { type: 'team'; managerId: string }
+
+export interface LeaderboardEntry {
+  userId: string
+  score: number
+  rank: number
+}
+
+// Set once a key has been filled from Postgres; until then the worker's writes may be partial
+export const LEADERBOARD_READY_SUFFIX = ':ready'
+// Window keys outlive their period so late jobs still land in the right window
+const WINDOW_GRACE_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Current week (Monday start) or month window. Contests are organization-wide,
+ * so windows follow APP_TIMEZONE rather than each user's timezone.
+ */
+export function getLeaderboardWindow(period: Exclude<LeaderboardPeriod, 'all'>, now: Date = new Date()) {
+  const timeZone = resolveTimeZone()
+  const today = toLocalDateString(now, timeZone)
+
+  let startDay: string
+  let endDay: string
+  if (period === 'week') {
+    startDay = addDays(today, -((getDayOfWeek(today) + 6) % 7))
+    endDay = addDays(startDay, 7)
+  } else {
+    const [year, month] = today.split('-').map(Number)
+    startDay = `${today.slice(0, 7)}-01`
+    endDay = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10)
+  }
+
+  return { startDay, start: startOfLocalDay(startDay, timeZone), end: startOfLocalDay(endDay, timeZone) }
+}
+
+function scopeSuffix(scope: LeaderboardScope): string {
+  if (scope.type === 'department') return `dept:${scope.departamento}`
+  if (scope.type === 'team') return `team:${scope.managerId}`
+  return 'global'
+}
+
+export function getLeaderboardKey(scope: LeaderboardScope, period: LeaderboardPeriod, now: Date = new Date()): string {
+  if (period === 'all') {
+    if (scope.type === 'department') return `${LEADERBOARD_DEPT_PREFIX}${scope.departamento}`
+    if (scope.type === 'team') return `${LEADERBOARD_TEAM_PREFIX}${scope.managerId}`
+    return LEADERBOARD_KEY
+  }
+  const window = getLeaderboardWindow(period, now)
+  return `${LEADERBOARD_PERIOD_PREFIX}${period}:${window.startDay}:${scopeSuffix(scope)}`
+}
+
+export function getUserScopes(user: { departamento: string; managerId: string | null }): LeaderboardScope[] {
+  const scopes: LeaderboardScope[] = [{ type: 'global' }, { type: 'department', departamento: user.departamento }]
+  if (user.managerId) scopes.push({ type: 'team', managerId: user.managerId })
+  return scopes
+}
+
+export function getWindowExpiry(period: Exclude<LeaderboardPeriod, 'all'>, now: Date): number {
+  return Math.floor(getLeaderboardWindow(period, now).end.getTime() / 1000) + WINDOW_GRACE_SECONDS
+}
+
+/**
+ * Write an award into every leaderboard the user belongs to: lifetime XP into the
+ * global/department/team sets and the XP delta into the current week and month windows.
+ * Called by the gamification worker after the balance update.
+ */
+export async function recordLeaderboardXp(input: {
+  user: { id: string; departamento: string; managerId: string | null }
+  xp: number
+  xpDelta: number
+  now?: Date
+}): Promise<void> {
+  const now = input.now ?? new Date()
+  const scopes = getUserScopes(input.user)
+  const pipeline = redis.pipeline()
+
+  for (const scope of scopes) {
+    pipeline.zadd(getLeaderboardKey(scope, 'all'), input.xp, input.user.id)
+  }
+  if (input.xpDelta > 0) {
+    for (const period of ['week', 'month'] as const) {
+      const expiry = getWindowExpiry(period, now)
+      for (const scope of scopes) {
+        const key = getLeaderboardKey(scope, period, now)
+        pipeline.zincrby(key, input.xpDelta, input.user.id)
+        pipeline.expireat(key, expiry)
+      }
+    }
+  }
+
+  await pipeline.exec()
+}
+
+/**
+ * Move a user whose departamento or gestor changed out of the old department/team
+ * leaderboards (lifetime and current windows) and into the new ones, with their lifetime
+ * XP and the XP earned in each current window. Called from the user-update path so the
+ * scoped rankings do not wait for the daily rebuild.
+ */
+export async function moveUserLeaderboardScopes(input: {
+  user: { id: string; xp: number; role: string; isActive: boolean }
+  before: { departamento: string; managerId: string | null }
+  after: { departamento: string; managerId: string | null }
+  now?: Date
+}): Promise<void> {
+  const now = input.now ?? new Date()
+  const sameScope = (a: LeaderboardScope, b: LeaderboardScope) => scopeSuffix(a) === scopeSuffix(b)
+  const oldScopes = getUserScopes(input.before).filter(s => s.type !== 'global')
+  const newScopes = getUserScopes(input.after).filter(s => s.type !== 'global')
+  const removed = oldScopes.filter(s => !newScopes.some(n => sameScope(n, s)))
+  const added = newScopes.filter(s => !oldScopes.some(o => sameScope(o, s)))
+  if (removed.length === 0 && added.length === 0) return
+
+  const periods = ['all', 'week', 'month'] as const
+  const pipeline = redis.pipeline()
+  for (const scope of removed) {
+    for (const period of periods) pipeline.zrem(getLeaderboardKey(scope, period, now), input.user.id)
+  }
+
+  // Only ranked users (active colaboradores) go into the new scopes
+  if (input.user.role === 'colaborador' && input.user.isActive && added.length > 0) {
+    const windowXp = await Promise.all((['week', 'month'] as const).map(async (period) => {
+      const window = getLeaderboardWindow(period, now)
+      const sum = await prisma.xpLedgerEntry.aggregate({
+        where: { userId: input.user.id, createdAt: { gte: window.start, lt: window.end }, xpDelta: { gt: 0 } },
+        _sum: { xpDelta: true },
+      })
+      return { period, xp: sum._sum.xpDelta ?? 0, expiry: getWindowExpiry(period, now) }
+    }))
+
+    for (const scope of added) {
+      pipeline.zadd(getLeaderboardKey(scope, 'all'), input.user.xp, input.user.id)
+      for (const window of windowXp) {
+        if (window.xp <= 0) continue
+        const key = getLeaderboardKey(scope, window.period, now)
+        pipeline.zadd(key, window.xp, input.user.id)
+        pipeline.expireat(key, window.expiry)
+      }
+    }
+  }
+
+  await pipeline.exec()
+}
+
+export function scopeWhere(scope: LeaderboardScope): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = { role: 'colaborador', isActive: true }
+  if (scope.type === 'department') where.departamento = scope.departamento
+  if (scope.type === 'team') where.managerId = scope.managerId
+  return where
+}
+
+/**
+ * Full ranking computed from Postgres: lifetime XP for 'all', otherwise the XP
+ * ledger summed over the current window.
+ */
+export async function loadLeaderboardFromDb(
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod,
+  now: Date = new Date(),
+): Promise<LeaderboardEntry[]> {
+  let scores: Array<{ userId: string; score: number }>
+
+  if (period === 'all') {
+    const users = await prisma.user.findMany({
+      where: scopeWhere(scope),
+      orderBy: [{ xp: 'desc' }, { id: 'asc' }],
+      select: { id: true, xp: true },
+    })
+    scores = users.map(u => ({ userId: u.id, score: u.xp }))
+  } else {
+    const window = getLeaderboardWindow(period, now)
+    const groups = await prisma.xpLedgerEntry.groupBy({
+      by: ['userId'],
+      where: {
+        createdAt: { gte: window.start, lt: window.end },
+        xpDelta: { gt: 0 },
+        user: scopeWhere(scope),
+      },
+      _sum: { xpDelta: true },
+    })
+    scores = groups
+      .map(g => ({ userId: g.userId, score: g._sum.xpDelta ?? 0 }))
+      .filter(e => e.score > 0)
+      .sort((a, b) => b.score - a.score || a.userId.localeCompare(b.userId))
+  }
+
+  return scores.map((e, idx) => ({ ...e, rank: idx + 1 }))
+}
+
+async function populateLeaderboard(scope: LeaderboardScope, period: LeaderboardPeriod, now: Date): Promise<void> {
+  const key = getLeaderboardKey(scope, period, now)
+  const ranking = await loadLeaderboardFromDb(scope, period, now)
+
+  const multi = redis.multi().del(key)
+  if (ranking.length > 0) multi.zadd(key, ...ranking.flatMap(e => [e.score, e.userId]))
+  multi.set(`${key}${LEADERBOARD_READY_SUFFIX}`, '1')
+  if (period !== 'all') {
+    const expiry = getWindowExpiry(period, now)
+    multi.expireat(key, expiry)
+    multi.expireat(`${key}${LEADERBOARD_READY_SUFFIX}`, expiry)
+  }
+  await multi.exec()
+}
+
+/**
+ * A page of the scope's leaderboard plus the requesting user's rank and score.
+ * Reads Redis (filling the key from Postgres the first time) and falls back to
+ * Postgres when Redis is unavailable.
+ */
+export async function getScopedLeaderboardUseCase(input: {
+  scope: LeaderboardScope
+  period: LeaderboardPeriod
+  offset: number
+  limit: number
+  userId: string
+  now?: Date
+}): Promise<{ entries: LeaderboardEntry[]; currentUser: LeaderboardEntry | null }> {
+  const now = input.now ?? new Date()
+  const key = getLeaderboardKey(input.scope, input.period, now)
+
+  try {
+    if (!(await redis.exists(`${key}${LEADERBOARD_READY_SUFFIX}`))) {
+      await populateLeaderboard(input.scope, input.period, now)
+    }
+    const [entries, rank, score] = await Promise.all([
+      getLeaderboard(input.offset, input.limit, key),
+      getUserRank(input.userId, key),
+      redis.zscore(key, input.userId),
+    ])
+    return {
+      entries: entries.map(e => ({ userId: e.userId, score: e.xp, rank: e.rank })),
+      currentUser: rank !== null ? { userId: input.userId, score: Number(score), rank } : null,
+    }
+  } catch {
+    // Redis unavailable, rank straight from the database
+    const ranking = await loadLeaderboardFromDb(input.scope, input.period, now)
+    return {
+      entries: ranking.slice(input.offset, input.offset + input.limit),
+      currentUser: ranking.find(e => e.userId === input.userId) ?? null,
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import {
+  redis,
+  LEADERBOARD_KEY,
+  LEADERBOARD_DEPT_PREFIX,
+  LEADERBOARD_TEAM_PREFIX,
+  LEADERBOARD_PERIOD_PREFIX,
+} from '../../infrastructure/cache/redis.client.js'
+import {
+  LEADERBOARD_READY_SUFFIX,
+  getLeaderboardKey,
+  getLeaderboardWindow,
+  getUserScopes,
+  getWindowExpiry,
+  loadLeaderboardFromDb,
+  scopeWhere,
+  type LeaderboardPeriod,
+  type LeaderboardScope,
+} from './leaderboard.usecase.js'
+
+const REBUILD_SUFFIX = ':rebuild'
+const ZADD_CHUNK = 1000
+// Keys listed individually in the report; totals always cover every key
+const MAX_REPORTED_KEYS = 100
+
+export type LeaderboardDrift = {
+  key: string
+  missing: number // in Postgres, not in Redis
+  stale: number // in Redis, not eligible anymore (inactive, not colaborador, moved)
+  mismatched: number // in both with a different score
+}
+
+export type LeaderboardRebuildReport = {
+  dryRun: boolean
+  keys: number
+  members: number
+  missing: number
+  stale: number
+  mismatched: number
+  removedKeys: number
+  drifted: LeaderboardDrift[]
+  durationMs: number
+}
+
+async function scanKeys(pattern: string): Promise<string[]> {
+  const keys: string[] = []
+  let cursor = '0'
+  do {
+    const [next, batch] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 500)
+    cursor = next
+    keys.push(...batch.filter(k => !k.endsWith(LEADERBOARD_READY_SUFFIX) && !k.endsWith(REBUILD_SUFFIX)))
+  } while (cursor !== '0')
+  return keys
+}
+
+async function readSortedSet(key: string): Promise<Map<string, number>> {
+  const flat = await redis.zrange(key, 0, -1, 'WITHSCORES')
+  const scores = new Map<string, number>()
+  for (let i = 0; i < flat.length; i += 2) scores.set(flat[i], parseFloat(flat[i + 1]))
+  return scores
+}
+
+async function writeSortedSet(
+  key: string,
+  period: LeaderboardPeriod | null,
+  scores: Map<string, number>,
+  now: Date,
+): Promise<void> {
+  const readyKey = `${key}${LEADERBOARD_READY_SUFFIX}`
+
+  // Orphan key (department or team without eligible members): drop it and its marker
+  if (period === null) {
+    await redis.del(key, readyKey)
+    return
+  }
+
+  // Fill a temp key and swap it in, so readers never see a half-built set
+  const tempKey = `${key}${REBUILD_SUFFIX}`
+  await redis.del(tempKey)
+  const members = [...scores.entries()]
+  for (let i = 0; i < members.length; i += ZADD_CHUNK) {
+    await redis.zadd(tempKey, ...members.slice(i, i + ZADD_CHUNK).flatMap(([userId, score]) => [score, userId]))
+  }
+
+  const multi = redis.multi()
+  if (members.length > 0) multi.rename(tempKey, key)
+  else multi.del(key)
+  multi.set(readyKey, '1')
+  if (period !== 'all') {
+    const expiry = getWindowExpiry(period, now)
+    multi.expireat(key, expiry)
+    multi.expireat(readyKey, expiry)
+  }
+  await multi.exec()
+}
+
+/**
+ * Rebuild every current leaderboard key (global, department and team; lifetime, week
+ * and month) from Postgres and report how far Redis had drifted. Inactive and
+ * non-colaborador users are dropped, and department/team keys left without members
+ * are deleted. With dryRun only the drift report is produced.
+ * Each key's scores are read from Postgres right before that key is swapped, so only
+ * an award landing between that read and the swap can be missed (or counted twice)
+ * instead of every award processed during the run.
+ */
+export async function rebuildLeaderboardsUseCase(input: {
+  actorId: string | null
+  dryRun?: boolean
+  now?: Date
+}): Promise<LeaderboardRebuildReport> {
+  const startedAt = Date.now()
+  const now = input.now ?? new Date()
+  const dryRun = input.dryRun ?? false
+
+  // Every scope with eligible members; the scores themselves are loaded per key below
+  const scopes = await prisma.user.findMany({
+    where: scopeWhere({ type: 'global' }),
+    distinct: ['departamento', 'managerId'],
+    select: { departamento: true, managerId: true },
+  })
+  const planned = new Map<string, { scope: LeaderboardScope; period: LeaderboardPeriod }>()
+  for (const user of scopes) {
+    for (const scope of getUserScopes(user)) {
+      for (const period of ['all', 'week', 'month'] as const) {
+        planned.set(getLeaderboardKey(scope, period, now), { scope, period })
+      }
+    }
+  }
+
+  // Existing keys for the lifetime sets and the current windows (older windows just expire)
+  const weekStart = getLeaderboardWindow('week', now).startDay
+  const monthStart = getLeaderboardWindow('month', now).startDay
+  const existing = new Set<string>([
+    LEADERBOARD_KEY,
+    ...(await scanKeys(`${LEADERBOARD_DEPT_PREFIX}*`)),
+    ...(await scanKeys(`${LEADERBOARD_TEAM_PREFIX}*`)),
+    ...(await scanKeys(`${LEADERBOARD_PERIOD_PREFIX}week:${weekStart}:*`)),
+    ...(await scanKeys(`${LEADERBOARD_PERIOD_PREFIX}month:${monthStart}:*`)),
+  ])
+
+  const report: LeaderboardRebuildReport = {
+    dryRun,
+    keys: 0,
+    members: 0,
+    missing: 0,
+    stale: 0,
+    mismatched: 0,
+    removedKeys: 0,
+    drifted: [],
+    durationMs: 0,
+  }
+
+  for (const key of new Set([...planned.keys(), ...existing])) {
+    const plan = planned.get(key)
+    const ranking = plan ? await loadLeaderboardFromDb(plan.scope, plan.period, now) : []
+    const scores = new Map(ranking.map(e => [e.userId, e.score]))
+    const current = await readSortedSet(key)
+
+    const drift: LeaderboardDrift = { key, missing: 0, stale: 0, mismatched: 0 }
+    for (const [userId, score] of scores) {
+      const actual = current.get(userId)
+      if (actual === undefined) drift.missing++
+      else if (actual !== score) drift.mismatched++
+    }
+    for (const userId of current.keys()) {
+      if (!scores.has(userId)) drift.stale++
+    }
+
+    report.missing += drift.missing
+    report.stale += drift.stale
+    report.mismatched += drift.mismatched
+    if (drift.missing + drift.stale + drift.mismatched > 0 && report.drifted.length < MAX_REPORTED_KEYS) {
+      report.drifted.push(drift)
+    }
+    if (plan) {
+      report.keys++
+      report.members += scores.size
+    } else {
+      report.removedKeys++
+    }
+
+    if (!dryRun) await writeSortedSet(key, plan?.period ?? null, scores, now)
+  }
+
+  report.durationMs = Date.now() - startedAt
+
+  if (!dryRun) {
+    await prisma.auditLog.create({
+      data: {
+        actorId: input.actorId,
+        action: 'leaderboard.rebuild',
+        resourceType: 'leaderboard',
+        metadata: report,
+      },
+    })
+  }
+
+  return report
+}
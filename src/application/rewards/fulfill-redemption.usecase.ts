@@ -0,0 +1,128 @@
+import type { RedemptionStatus } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { ConflictError, NotFoundError } from '../../shared/errors/app-error.js'
+
+// Allowed source states for each target state; delivered and rejected are final
+export const REDEMPTION_TRANSITIONS: Record<RedemptionStatus, RedemptionStatus[]> = {
+  pending: [],
+  approved: ['pending'],
+  delivered: ['approved'],
+  rejected: ['pending', 'approved'],
+}
+
+const NOTIFICATION_COPY: Record<Exclude<RedemptionStatus, 'pending'>, { title: string; message: (nome: string) => string }> = {
+  approved: {
+    title: 'Resgate aprovado',
+    message: nome => `Seu resgate de "${nome}" foi aprovado e está sendo preparado.`,
+  },
+  delivered: {
+    title: 'Recompensa entregue',
+    message: nome => `Sua recompensa "${nome}" foi entregue.`,
+  },
+  rejected: {
+    title: 'Resgate recusado',
+    message: nome => `Seu resgate de "${nome}" foi recusado e as estrelas foram devolvidas.`,
+  },
+}
+
+/**
+ * Move a redemption to a new status. The status update is conditional on the
+ * current state, so concurrent admin actions cannot apply the same transition twice.
+ * Rejection refunds the stars (with a ledger entry) and releases the reserved stock.
+ */
+export async function transitionRedemptionUseCase(input: {
+  redemptionId: string
+  to: Exclude<RedemptionStatus, 'pending'>
+  actorId: string
+  trackingNote?: string
+  reason?: string
+}) {
+  const current = await prisma.rewardRedemption.findUnique({
+    where: { id: input.redemptionId },
+    include: { reward: { select: { id: true, nome: true } } },
+  })
+  if (!current) throw new NotFoundError('RewardRedemption', input.redemptionId)
+
+  const allowedFrom = REDEMPTION_TRANSITIONS[input.to]
+  if (!allowedFrom.includes(current.status)) {
+    throw new ConflictError(`Cannot change redemption from ${current.status} to ${input.to}`)
+  }
+
+  const now = new Date()
+  const updated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.rewardRedemption.updateMany({
+      where: { id: current.id, status: { in: allowedFrom } },
+      data: {
+        status: input.to,
+        ...(input.to === 'approved' ? { reviewedById: input.actorId, reviewedAt: now } : {}),
+        ...(input.to === 'delivered' ? { deliveredAt: now, trackingNote: input.trackingNote } : {}),
+        ...(input.to === 'rejected'
+          ? { reviewedById: input.actorId, reviewedAt: now, rejectionReason: input.reason }
+          : {}),
+      },
+    })
+    if (count === 0) throw new ConflictError('Redemption was changed by another request')
+
+    if (input.to === 'rejected') {
+      const balance = await tx.user.update({
+        where: { id: current.userId },
+        data: { estrelas: { increment: current.starsCost } },
+        select: { xp: true, estrelas: true },
+      })
+      await tx.xpLedgerEntry.create({
+        data: {
+          userId: current.userId,
+          action: 'estorno_recompensa',
+          sourceType: 'reward_redemption',
+          sourceId: current.id,
+          starsDelta: current.starsCost,
+          xpBalance: balance.xp,
+          starsBalance: balance.estrelas,
+          metadata: { rewardId: current.rewardId, reason: input.reason ?? null },
+        },
+      })
+      await tx.reward.update({
+        where: { id: current.rewardId },
+        data: { resgatados: { decrement: 1 } },
+      })
+    }
+
+    await tx.auditLog.create({
+      data: {
+        actorId: input.actorId,
+        action: `reward_redemption.${input.to}`,
+        resourceType: 'reward_redemption',
+        resourceId: current.id,
+        metadata: {
+          from: current.status,
+          to: input.to,
+          userId: current.userId,
+          rewardId: current.rewardId,
+          trackingNote: input.trackingNote ?? null,
+          reason: input.reason ?? null,
+          refundedStars: input.to === 'rejected' ? current.starsCost : 0,
+        },
+      },
+    })
+
+    return tx.rewardRedemption.findUniqueOrThrow({ where: { id: current.id } })
+  })
+
+  const copy = NOTIFICATION_COPY[input.to]
+  await enqueueNotification({
+    userId: current.userId,
+    type: 'reward_redeemed',
+    title: copy.title,
+    message: copy.message(current.reward.nome),
+    data: {
+      redemptionId: current.id,
+      rewardId: current.rewardId,
+      status: input.to,
+      trackingNote: input.trackingNote ?? null,
+      reason: input.reason ?? null,
+    },
+  })
+
+  return updated
+}
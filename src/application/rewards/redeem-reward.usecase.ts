@@ -0,0 +1,127 @@
+import type { Prisma, UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { ConflictError, ForbiddenError, NotFoundError } from '../../shared/errors/app-error.js'
+import { awardXpUseCase } from '../gamification/award-xp.usecase.js'
+import { getPeriodStart } from '../goals/evaluate-goal-progress.usecase.js'
+import { assertRewardEligible } from './reward-eligibility.usecase.js'
+
+const PERIOD_LABEL = { semanal: 'semana', mensal: 'mês', trimestral: 'trimestre' } as const
+
+/**
+ * Redeem a reward for stars. Eligibility (availability window, level, departamento
+ * and cargo) is checked first; everything else runs in one transaction:
+ * 1. conditional star decrement (also row-locks the user, serializing their redemptions)
+ * 2. per-user limits, counted after the lock so concurrent requests see each other
+ * 3. conditional stock increment against quantidade
+ * 4. redemption + ledger entry
+ */
+export async function redeemRewardUseCase(input: { rewardId: string; userId: string; userRole: UserRole }) {
+  if (input.userRole !== 'colaborador') {
+    throw new ForbiddenError('Only colaboradores can redeem rewards')
+  }
+
+  const reward = await prisma.reward.findUnique({ where: { id: input.rewardId } })
+  if (!reward || !reward.isActive) throw new NotFoundError('Reward', input.rewardId)
+
+  const user = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: { estrelas: true, nivel: true, departamento: true, cargo: true },
+  })
+  if (!user) throw new NotFoundError('User', input.userId)
+  assertRewardEligible(reward, user)
+
+  // Fast path only - the conditional increment below is what guarantees stock
+  if (reward.quantidade !== null && reward.resgatados >= reward.quantidade) {
+    throw new ConflictError('Reward out of stock')
+  }
+
+  const redemption = await prisma.$transaction(async (tx) => {
+    const debited = await tx.user.updateMany({
+      where: { id: input.userId, estrelas: { gte: reward.custo } },
+      data: { estrelas: { decrement: reward.custo } },
+    })
+    if (debited.count === 0) {
+      const user = await tx.user.findUnique({ where: { id: input.userId }, select: { estrelas: true } })
+      if (!user) throw new NotFoundError('User', input.userId)
+      throw new ForbiddenError(`Insufficient stars. Need ${reward.custo}, have ${user.estrelas}`)
+    }
+
+    const mine: Prisma.RewardRedemptionWhereInput = {
+      rewardId: reward.id,
+      userId: input.userId,
+      status: { not: 'rejected' },
+    }
+    if (reward.limitePorUsuario !== null) {
+      const count = await tx.rewardRedemption.count({ where: mine })
+      if (count >= reward.limitePorUsuario) {
+        throw new ConflictError(`Redemption limit reached (${reward.limitePorUsuario} per user)`)
+      }
+    }
+    if (reward.limitePorPeriodo !== null && reward.periodoLimite) {
+      const count = await tx.rewardRedemption.count({
+        where: { ...mine, redeemedAt: { gte: getPeriodStart(reward.periodoLimite, new Date()) } },
+      })
+      if (count >= reward.limitePorPeriodo) {
+        throw new ConflictError(
+          `Redemption limit reached (${reward.limitePorPeriodo} per ${PERIOD_LABEL[reward.periodoLimite]})`,
+        )
+      }
+    }
+
+    const reserved = await tx.reward.updateMany({
+      where: {
+        id: reward.id,
+        isActive: true,
+        ...(reward.quantidade !== null ? { resgatados: { lt: prisma.reward.fields.quantidade } } : {}),
+      },
+      data: { resgatados: { increment: 1 } },
+    })
+    if (reserved.count === 0) throw new ConflictError('Reward out of stock')
+
+    const created = await tx.rewardRedemption.create({
+      data: {
+        rewardId: reward.id,
+        userId: input.userId,
+        starsCost: reward.custo,
+      },
+    })
+    const balance = await tx.user.findUniqueOrThrow({
+      where: { id: input.userId },
+      select: { xp: true, estrelas: true },
+    })
+    await tx.xpLedgerEntry.create({
+      data: {
+        userId: input.userId,
+        action: 'resgatar_recompensa',
+        sourceType: 'reward_redemption',
+        sourceId: created.id,
+        starsDelta: -reward.custo,
+        xpBalance: balance.xp,
+        starsBalance: balance.estrelas,
+        metadata: { rewardId: reward.id },
+      },
+    })
+    return created
+  })
+
+  await enqueueNotification({
+    userId: input.userId,
+    type: 'reward_redeemed',
+    title: 'Recompensa resgatada!',
+    message: `Você resgatou "${reward.nome}" por ${reward.custo} estrelas.`,
+    data: { rewardId: reward.id, rewardName: reward.nome, starsCost: reward.custo },
+  })
+
+  // No XP for redeeming, but engagement requirements (resgatar_recompensa) listen to the event
+  await awardXpUseCase({
+    userId: input.userId,
+    userRole: input.userRole,
+    action: 'resgatar_recompensa',
+    xp: 0,
+    // No source: the redemption's ledger entry is written above
+    context: { rewardId: reward.id, redemptionId: redemption.id },
+  })
+
+  return { redemption, reward }
+}
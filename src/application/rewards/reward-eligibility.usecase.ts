@@ -0,0 +1,77 @@
+import type { Prisma, Reward, User } from '@prisma/client'
+import { ForbiddenError } from '../../shared/errors/app-error.js'
+
+export type IneligibleReason =
+  | 'not_available_yet'
+  | 'no_longer_available'
+  | 'level_too_low'
+  | 'department_not_eligible'
+  | 'cargo_not_eligible'
+  | 'out_of_stock'
+
+type EligibilityReward = Pick<
+  Reward,
+  'custo' | 'quantidade' | 'resgatados' | 'disponivelDe' | 'disponivelAte' | 'nivelMinimo' | 'departamentos' | 'cargos'
+>
+type EligibilityUser = Pick<User, 'estrelas' | 'nivel' | 'departamento' | 'cargo'>
+
+export interface RewardEligibility {
+  eligible: boolean
+  canAfford: boolean
+  reasons: IneligibleReason[]
+  remaining: number | null
+}
+
+const REASON_MESSAGES: Record<IneligibleReason, (reward: EligibilityReward) => string> = {
+  not_available_yet: () => 'Reward is not available yet',
+  no_longer_available: () => 'Reward is no longer available',
+  level_too_low: reward => `Reward requires level ${reward.nivelMinimo}`,
+  department_not_eligible: () => 'Reward is not available for your departamento',
+  cargo_not_eligible: () => 'Reward is not available for your cargo',
+  out_of_stock: () => 'Reward out of stock',
+}
+
+/**
+ * Prisma where fragment for rewards whose availability window contains `now`.
+ */
+export function buildRewardAvailabilityWhere(now: Date = new Date()): Prisma.RewardWhereInput {
+  return {
+    AND: [
+      { OR: [{ disponivelDe: null }, { disponivelDe: { lte: now } }] },
+      { OR: [{ disponivelAte: null }, { disponivelAte: { gte: now } }] },
+    ],
+  }
+}
+
+/**
+ * Whether the user may redeem the reward (window, level, departamento/cargo and stock)
+ * and whether they currently have enough stars. Empty departamentos/cargos mean everyone.
+ */
+export function getRewardEligibility(
+  reward: EligibilityReward,
+  user: EligibilityUser,
+  now: Date = new Date(),
+): RewardEligibility {
+  const reasons: IneligibleReason[] = []
+  if (reward.disponivelDe && reward.disponivelDe > now) reasons.push('not_available_yet')
+  if (reward.disponivelAte && reward.disponivelAte < now) reasons.push('no_longer_available')
+  if (reward.nivelMinimo !== null && user.nivel < reward.nivelMinimo) reasons.push('level_too_low')
+  if (reward.departamentos.length > 0 && !reward.departamentos.includes(user.departamento)) {
+    reasons.push('department_not_eligible')
+  }
+  if (reward.cargos.length > 0 && !reward.cargos.includes(user.cargo)) reasons.push('cargo_not_eligible')
+
+  const remaining = reward.quantidade !== null ? Math.max(0, reward.quantidade - reward.resgatados) : null
+  if (remaining === 0) reasons.push('out_of_stock')
+
+  return { eligible: reasons.length === 0, canAfford: user.estrelas >= reward.custo, reasons, remaining }
+}
+
+/**
+ * Throw a ForbiddenError for the first rule (other than stock) the user does not meet.
+ * Stock is left to the redemption transaction, which checks it atomically.
+ */
+export function assertRewardEligible(reward: EligibilityReward, user: EligibilityUser, now: Date = new Date()): void {
+  const reason = getRewardEligibility(reward, user, now).reasons.find(r => r !== 'out_of_stock')
+  if (reason) throw new ForbiddenError(REASON_MESSAGES[reason](reward))
+}
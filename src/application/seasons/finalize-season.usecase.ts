@@ -0,0 +1,212 @@
+import { z } from 'zod'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { enqueueNotification } from '../../infrastructure/queue/bullmq.client.js'
+import { NotFoundError, ValidationError } from '../../shared/errors/app-error.js'
+import { awardXpOrThrowUseCase } from '../gamification/award-xp.usecase.js'
+import { loadSeasonStandingsFromDb } from './season-leaderboard.usecase.js'
+
+export const seasonPrizeSchema = z.object({
+  fromRank: z.number().int().min(1),
+  toRank: z.number().int().min(1),
+  stars: z.number().int().min(1).optional(),
+  rewardId: z.string().optional(),
+}).refine(p => p.toRank >= p.fromRank, { message: 'toRank must be >= fromRank', path: ['toRank'] })
+  .refine(p => p.stars !== undefined || p.rewardId !== undefined, { message: 'A prize needs stars or a rewardId' })
+
+export type SeasonPrize = z.infer<typeof seasonPrizeSchema>
+
+/**
+ * Prize ranges must not overlap and reward items must exist.
+ */
+export async function validateSeasonPrizes(prizes: SeasonPrize[]): Promise<void> {
+  const sorted = [...prizes].sort((a, b) => a.fromRank - b.fromRank)
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].fromRank <= sorted[i - 1].toRank) {
+      throw new ValidationError(`Prize ranges overlap at rank ${sorted[i].fromRank}`)
+    }
+  }
+
+  const rewardIds = [...new Set(prizes.flatMap(p => (p.rewardId ? [p.rewardId] : [])))]
+  if (rewardIds.length === 0) return
+  const found = await prisma.reward.findMany({ where: { id: { in: rewardIds } }, select: { id: true } })
+  const missing = rewardIds.find(id => !found.some(r => r.id === id))
+  if (missing) throw new NotFoundError('Reward', missing)
+}
+
+function getPrizeForRank(prizes: SeasonPrize[], rank: number): SeasonPrize | undefined {
+  return prizes.find(p => rank >= p.fromRank && rank <= p.toRank)
+}
+
+/**
+ * Award the stars (through the gamification queue) and notify every winner of a closed
+ * season not notified yet. A standing is only marked notified once its award is queued;
+ * awards are keyed by standing, so re-running after a partial failure does not pay twice.
+ */
+export async function deliverSeasonPrizesUseCase(seasonId: string): Promise<number> {
+  const pending = await prisma.seasonStanding.findMany({
+    where: {
+      seasonId,
+      notifiedAt: null,
+      OR: [{ prizeStars: { gt: 0 } }, { prizeRewardId: { not: null } }],
+    },
+    include: {
+      season: { select: { nome: true } },
+      user: { select: { role: true } },
+    },
+    orderBy: { rank: 'asc' },
+  })
+  if (pending.length === 0) return 0
+
+  const rewardIds = pending.flatMap(s => (s.prizeRewardId ? [s.prizeRewardId] : []))
+  const rewards = await prisma.reward.findMany({ where: { id: { in: rewardIds } }, select: { id: true, nome: true } })
+  const rewardNames = new Map(rewards.map(r => [r.id, r.nome]))
+
+  let delivered = 0
+  for (const standing of pending) {
+    if (standing.prizeStars > 0) {
+      try {
+        await awardXpOrThrowUseCase({
+          userId: standing.userId,
+          userRole: standing.user.role,
+          action: 'premio_temporada',
+          xp: 0,
+          stars: standing.prizeStars,
+          source: { type: 'season_standing', id: standing.id },
+          context: { seasonId, rank: standing.rank },
+        })
+      } catch (err) {
+        // Left pending for the next season-maintenance run
+        console.error(`[Seasons] Prize award failed for standing ${standing.id}:`, (err as Error).message)
+        continue
+      }
+    }
+
+    const prizeParts: string[] = []
+    if (standing.prizeStars > 0) prizeParts.push(`${standing.prizeStars} estrelas`)
+    if (standing.prizeRewardId) prizeParts.push(`"${rewardNames.get(standing.prizeRewardId) ?? 'recompensa'}"`)
+    await enqueueNotification({
+      userId: standing.userId,
+      type: 'achievement',
+      title: 'Premiação da temporada!',
+      message: `Você terminou a temporada "${standing.season.nome}" em ${standing.rank}º lugar e ganhou ${prizeParts.join(' e ')}.`,
+      data: {
+        seasonId,
+        rank: standing.rank,
+        stars: standing.prizeStars,
+        rewardId: standing.prizeRewardId,
+        redemptionId: standing.redemptionId,
+      },
+    })
+
+    await prisma.seasonStanding.update({ where: { id: standing.id }, data: { notifiedAt: new Date() } })
+    delivered++
+  }
+
+  return delivered
+}
+
+/**
+ * Freeze the standings of an ended season from the XP ledger, create the redemptions
+ * for prize items (pending fulfillment, no stars charged) and deliver the prizes.
+ * Closing is a conditional status update, so concurrent runs close a season once.
+ * Returns false if the season was already closed.
+ */
+export async function finalizeSeasonUseCase(seasonId: string, actorId: string | null = null): Promise<boolean> {
+  const season = await prisma.season.findUnique({ where: { id: seasonId } })
+  if (!season) throw new NotFoundError('Season', seasonId)
+  if (season.status === 'closed') return false
+
+  const prizes = season.prizes as SeasonPrize[]
+  const ranking = await loadSeasonStandingsFromDb(season)
+  const now = new Date()
+
+  const closed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.season.updateMany({
+      where: { id: season.id, status: { not: 'closed' } },
+      data: { status: 'closed', closedAt: now },
+    })
+    if (count === 0) return false
+
+    let winners = 0
+    for (const entry of ranking) {
+      const prize = getPrizeForRank(prizes, entry.rank)
+      let redemptionId: string | null = null
+
+      if (prize?.rewardId) {
+        // Prizes are committed up front, so they count against stock without being limited by it
+        const redemption = await tx.rewardRedemption.create({
+          data: { rewardId: prize.rewardId, userId: entry.userId, starsCost: 0 },
+        })
+        await tx.reward.update({ where: { id: prize.rewardId }, data: { resgatados: { increment: 1 } } })
+        redemptionId = redemption.id
+      }
+      if (prize) winners++
+
+      await tx.seasonStanding.create({
+        data: {
+          seasonId: season.id,
+          userId: entry.userId,
+          rank: entry.rank,
+          xp: entry.score,
+          prizeStars: prize?.stars ?? 0,
+          prizeRewardId: prize?.rewardId ?? null,
+          redemptionId,
+        },
+      })
+    }
+
+    await tx.auditLog.create({
+      data: {
+        actorId,
+        action: 'season.close',
+        resourceType: 'season',
+        resourceId: season.id,
+        metadata: { participants: ranking.length, winners },
+      },
+    })
+    return true
+  }, { timeout: 60000 })
+
+  if (closed) await deliverSeasonPrizesUseCase(season.id)
+  return closed
+}
+
+/**
+ * Hourly season maintenance: start scheduled seasons, close the ones that ended and
+ * retry prize delivery left pending by an earlier failure.
+ */
+export async function processSeasonsUseCase(now: Date = new Date()) {
+  const { count: started } = await prisma.season.updateMany({
+    where: { status: 'scheduled', startsAt: { lte: now }, endsAt: { gt: now } },
+    data: { status: 'active' },
+  })
+
+  const ended = await prisma.season.findMany({
+    where: { status: { not: 'closed' }, endsAt: { lte: now } },
+    select: { id: true },
+  })
+  let closed = 0
+  for (const season of ended) {
+    try {
+      if (await finalizeSeasonUseCase(season.id)) closed++
+    } catch (err) {
+      console.error(`[Seasons] Failed to close season ${season.id}:`, (err as Error).message)
+    }
+  }
+
+  const undelivered = await prisma.seasonStanding.findMany({
+    where: {
+      notifiedAt: null,
+      season: { status: 'closed' },
+      OR: [{ prizeStars: { gt: 0 } }, { prizeRewardId: { not: null } }],
+    },
+    distinct: ['seasonId'],
+    select: { seasonId: true },
+  })
+  let delivered = 0
+  for (const { seasonId } of undelivered) {
+    delivered += await deliverSeasonPrizesUseCase(seasonId)
+  }
+
+  return { started, closed, delivered }
+}
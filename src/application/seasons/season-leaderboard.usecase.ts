@@ -0,0 +1,157 @@
+import type { Prisma, Season, UserRole } from '@prisma/client'
+import { prisma } from '../../infrastructure/database/prisma.client.js'
+import { redis, getLeaderboard, getUserRank, LEADERBOARD_SEASON_PREFIX } from '../../infrastructure/cache/redis.client.js'
+import { NotFoundError } from '../../shared/errors/app-error.js'
+import { isInAudience } from '../audience/resolve-audience.usecase.js'
+import { LEADERBOARD_READY_SUFFIX, scopeWhere, type LeaderboardEntry } from '../ranking/leaderboard.usecase.js'
+
+// Live keys are only needed until the standings are frozen
+const SEASON_KEY_GRACE_SECONDS = 7 * 24 * 60 * 60
+
+type SeasonWindow = Pick<Season, 'id' | 'startsAt' | 'endsAt' | 'publicoAlvoType' | 'targetIds'>
+
+export interface SeasonLeaderboardEntry extends LeaderboardEntry {
+  prizeStars?: number
+  prizeRewardId?: string | null
+}
+
+export function getSeasonLeaderboardKey(seasonId: string): string {
+  return `${LEADERBOARD_SEASON_PREFIX}${seasonId}`
+}
+
+function getSeasonKeyExpiry(season: Pick<Season, 'endsAt'>): number {
+  return Math.floor(season.endsAt.getTime() / 1000) + SEASON_KEY_GRACE_SECONDS
+}
+
+// Active colaboradores in the season's audience
+function seasonUserWhere(season: Pick<Season, 'publicoAlvoType' | 'targetIds'>): Prisma.UserWhereInput {
+  const where = scopeWhere({ type: 'global' })
+  if (season.publicoAlvoType === 'colaboradores_especificos') where.id = { in: season.targetIds }
+  if (season.publicoAlvoType === 'por_departamento') where.departamento = { in: season.targetIds }
+  return where
+}
+
+/**
+ * Season ranking from the XP ledger: XP earned within [startsAt, endsAt) by the audience.
+ * Ties keep a stable order by user id.
+ */
+export async function loadSeasonStandingsFromDb(season: SeasonWindow): Promise<LeaderboardEntry[]> {
+  const groups = await prisma.xpLedgerEntry.groupBy({
+    by: ['userId'],
+    where: {
+      createdAt: { gte: season.startsAt, lt: season.endsAt },
+      xpDelta: { gt: 0 },
+      user: seasonUserWhere(season),
+    },
+    _sum: { xpDelta: true },
+  })
+
+  return groups
+    .map(g => ({ userId: g.userId, score: g._sum.xpDelta ?? 0 }))
+    .filter(e => e.score > 0)
+    .sort((a, b) => b.score - a.score || a.userId.localeCompare(b.userId))
+    .map((e, idx) => ({ ...e, rank: idx + 1 }))
+}
+
+/**
+ * Add an award's XP to every running season whose audience includes the user.
+ * Called by the gamification worker next to the regular leaderboards.
+ */
+export async function recordSeasonXp(input: {
+  user: { id: string; role: UserRole; departamento: string }
+  xpDelta: number
+  now?: Date
+}): Promise<void> {
+  if (input.xpDelta <= 0) return
+  const now = input.now ?? new Date()
+
+  const seasons = await prisma.season.findMany({
+    where: { status: { not: 'closed' }, startsAt: { lte: now }, endsAt: { gt: now } },
+    select: { id: true, endsAt: true, publicoAlvoType: true, targetIds: true },
+  })
+  const joined = seasons.filter(s => isInAudience({ type: s.publicoAlvoType, targetIds: s.targetIds }, input.user))
+  if (joined.length === 0) return
+
+  const pipeline = redis.pipeline()
+  for (const season of joined) {
+    const key = getSeasonLeaderboardKey(season.id)
+    pipeline.zincrby(key, input.xpDelta, input.user.id)
+    pipeline.expireat(key, getSeasonKeyExpiry(season))
+  }
+  await pipeline.exec()
+}
+
+async function getLiveStandings(season: SeasonWindow, offset: number, limit: number, userId: string) {
+  const key = getSeasonLeaderboardKey(season.id)
+  const readyKey = `${key}${LEADERBOARD_READY_SUFFIX}`
+
+  try {
+    if (!(await redis.exists(readyKey))) {
+      const ranking = await loadSeasonStandingsFromDb(season)
+      const multi = redis.multi().del(key)
+      if (ranking.length > 0) multi.zadd(key, ...ranking.flatMap(e => [e.score, e.userId]))
+      multi.set(readyKey, '1')
+      multi.expireat(key, getSeasonKeyExpiry(season))
+      multi.expireat(readyKey, getSeasonKeyExpiry(season))
+      await multi.exec()
+    }
+    const [entries, rank, score] = await Promise.all([
+      getLeaderboard(offset, limit, key),
+      getUserRank(userId, key),
+      redis.zscore(key, userId),
+    ])
+    return {
+      entries: entries.map(e => ({ userId: e.userId, score: e.xp, rank: e.rank })),
+      currentUser: rank !== null ? { userId, score: Number(score), rank } : null,
+    }
+  } catch {
+    // Redis unavailable, rank straight from the database
+    const ranking = await loadSeasonStandingsFromDb(season)
+    return {
+      entries: ranking.slice(offset, offset + limit),
+      currentUser: ranking.find(e => e.userId === userId) ?? null,
+    }
+  }
+}
+
+/**
+ * A page of the season leaderboard plus the requesting user's standing: live while the
+ * season runs, the frozen standings (with prizes) once it is closed.
+ */
+export async function getSeasonLeaderboardUseCase(input: {
+  seasonId: string
+  offset: number
+  limit: number
+  userId: string
+  now?: Date
+}): Promise<{ season: Season; archived: boolean; entries: SeasonLeaderboardEntry[]; currentUser: SeasonLeaderboardEntry | null }> {
+  const season = await prisma.season.findUnique({ where: { id: input.seasonId } })
+  if (!season) throw new NotFoundError('Season', input.seasonId)
+
+  if (season.status === 'closed') {
+    const [standings, mine] = await Promise.all([
+      prisma.seasonStanding.findMany({
+        where: { seasonId: season.id },
+        orderBy: { rank: 'asc' },
+        skip: input.offset,
+        take: input.limit,
+      }),
+      prisma.seasonStanding.findUnique({ where: { seasonId_userId: { seasonId: season.id, userId: input.userId } } }),
+    ])
+    const toEntry = (s: (typeof standings)[number]): SeasonLeaderboardEntry => ({
+      userId: s.userId,
+      score: s.xp,
+      rank: s.rank,
+      prizeStars: s.prizeStars,
+      prizeRewardId: s.prizeRewardId,
+    })
+    return { season, archived: true, entries: standings.map(toEntry), currentUser: mine ? toEntry(mine) : null }
+  }
+
+  if (season.startsAt > (input.now ?? new Date())) {
+    return { season, archived: false, entries: [], currentUser: null }
+  }
+
+  const live = await getLiveStandings(season, input.offset, input.limit, input.userId)
+  return { season, archived: false, ...live }
+}
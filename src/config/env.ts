@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { isValidTimeZone } from '../shared/utils/timezone.js'
 
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -23,6 +24,10 @@ const envSchema = z.object({
   R2_ENDPOINT: z.string().min(1, 'R2_ENDPOINT is required'),
   R2_REGION: z.string().default('auto'),
   OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
+  ENGAGEMENT_REMINDER_DAYS: z.coerce.number().int().min(1).default(3),
+  APP_TIMEZONE: z.string().refine(isValidTimeZone, 'Invalid IANA timezone').default('America/Sao_Paulo'),
+  TIMEZONE_CHANGE_COOLDOWN_DAYS: z.coerce.number().int().min(0).default(30),
+  FEED_EDIT_WINDOW_MINUTES: z.coerce.number().int().min(0).default(15),
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
 })
 
@@ -22,15 +22,32 @@ redis.on('connect', () => {
 // Leaderboard keys
 export const LEADERBOARD_KEY = 'engageai:leaderboard:global'
 export const LEADERBOARD_DEPT_PREFIX = 'engageai:leaderboard:dept:'
+export const LEADERBOARD_TEAM_PREFIX = 'engageai:leaderboard:team:' // + managerId
+// + "<week|month>:<window start day>:<scope>", scored by XP earned within the window
+export const LEADERBOARD_PERIOD_PREFIX = 'engageai:leaderboard:period:'
+export const LEADERBOARD_SEASON_PREFIX = 'engageai:leaderboard:season:' // + seasonId, live standings only
 export const LEADERBOARD_TTL = 300 // 5 minutes
 
-export async function updateLeaderboardScore(userId: string, xp: number): Promise<void> {
-  await redis.zadd(LEADERBOARD_KEY, xp, userId)
-}
+// Active gamification reward table (invalidated on every rules change)
+export const REWARD_RULES_CACHE_KEY = 'engageai:gamification:rules'
+export const REWARD_RULES_TTL = 300 // 5 minutes
+export const LEVEL_CURVE_CACHE_KEY = 'engageai:gamification:level-curve'
+
+// Marks a user's first access of the day so only that request touches the database
+export const DAILY_ACCESS_PREFIX = 'engageai:access:'
+export const DAILY_ACCESS_TTL = 48 * 60 * 60
+
+// User.timezone read by every authenticated request (rewritten by PUT /users/:id)
+export const USER_TIMEZONE_PREFIX = 'engageai:user-timezone:'
+export const USER_TIMEZONE_TTL = 15 * 60 // 15 minutes
 
-export async function getLeaderboard(offset = 0, limit = 50): Promise<Array<{ userId: string; xp: number; rank: number }>> {
+export async function getLeaderboard(
+  offset = 0,
+  limit = 50,
+  key = LEADERBOARD_KEY,
+): Promise<Array<{ userId: string; xp: number; rank: number }>> {
   const results = await redis.zrevrangebyscore(
-    LEADERBOARD_KEY,
+    key,
     '+inf',
     '-inf',
     'WITHSCORES',
@@ -50,7 +67,7 @@ export async function getLeaderboard(offset = 0, limit = 50): Promise<Array<{ us
   return entries
 }
 
-export async function getUserRank(userId: string): Promise<number | null> {
-  const rank = await redis.zrevrank(LEADERBOARD_KEY, userId)
+export async function getUserRank(userId: string, key = LEADERBOARD_KEY): Promise<number | null> {
+  const rank = await redis.zrevrank(key, userId)
   return rank !== null ? rank + 1 : null
 }
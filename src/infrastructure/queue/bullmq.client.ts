@@ -13,6 +13,8 @@ const connection = {
 // Queue names
 export const GAMIFICATION_QUEUE = 'gamification'
 export const NOTIFICATION_QUEUE = 'notifications'
+export const ENGAGEMENT_QUEUE = 'engagements'
+export const LEADERBOARD_QUEUE = 'leaderboards'
 
 // Gamification queue
 export const gamificationQueue = new Queue(GAMIFICATION_QUEUE, {
@@ -39,11 +41,36 @@ export const notificationQueue = new Queue(NOTIFICATION_QUEUE, {
   },
 })
 
+// Engagement maintenance queue (scheduled expiry + deadline reminders)
+export const engagementQueue = new Queue(ENGAGEMENT_QUEUE, {
+  connection,
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: { type: 'fixed', delay: 5000 },
+    removeOnComplete: 20,
+    removeOnFail: 20,
+  },
+})
+
+// Leaderboard maintenance queue (scheduled + admin-triggered rebuilds, season closing)
+export const leaderboardQueue = new Queue(LEADERBOARD_QUEUE, {
+  connection,
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: { type: 'fixed', delay: 30000 },
+    removeOnComplete: 20,
+    removeOnFail: 20,
+  },
+})
+
 export interface GamificationJobData {
   userId: string
   action: string
   xp?: number
   stars?: number
+  sourceType?: string
+  sourceId?: string
+  idempotencyKey?: string
   context?: Record<string, unknown>
 }
 
@@ -55,9 +82,19 @@ export interface NotificationJobData {
   data?: Record<string, unknown>
 }
 
+export interface LeaderboardJobData {
+  // null for the scheduled run
+  actorId: string | null
+}
+
+// For callers that track delivery themselves and must retry when the queue is down
+export async function enqueueGamificationEventOrThrow(data: GamificationJobData): Promise<void> {
+  await gamificationQueue.add('award-xp', data)
+}
+
 export async function enqueueGamificationEvent(data: GamificationJobData): Promise<void> {
   try {
-    await gamificationQueue.add('award-xp', data)
+    await enqueueGamificationEventOrThrow(data)
   } catch (err) {
     // Redis unavailable - log warning but don't block HTTP response
     console.warn('[Gamification] Queue unavailable, XP event dropped:', (err as Error).message)
@@ -72,5 +109,66 @@ export async function enqueueNotification(data: NotificationJobData): Promise<vo
   }
 }
 
+export async function scheduleEngagementMaintenance(): Promise<void> {
+  try {
+    await engagementQueue.upsertJobScheduler(
+      'engagement-maintenance',
+      { pattern: '0 * * * *' }, // hourly
+      { name: 'process-engagements' },
+    )
+  } catch (err) {
+    console.warn('[Engagement] Queue unavailable, maintenance not scheduled:', (err as Error).message)
+  }
+}
+
+export async function scheduleLeaderboardRebuild(): Promise<void> {
+  try {
+    await leaderboardQueue.upsertJobScheduler(
+      'leaderboard-rebuild',
+      { pattern: '30 3 * * *' }, // daily
+      { name: 'rebuild-leaderboards', data: { actorId: null } },
+    )
+  } catch (err) {
+    console.warn('[Leaderboard] Queue unavailable, rebuild not scheduled:', (err as Error).message)
+  }
+}
+
+export async function scheduleSeasonMaintenance(): Promise<void> {
+  try {
+    await leaderboardQueue.upsertJobScheduler(
+      'season-maintenance',
+      { pattern: '5 * * * *' }, // hourly
+      { name: 'process-seasons' },
+    )
+  } catch (err) {
+    console.warn('[Seasons] Queue unavailable, maintenance not scheduled:', (err as Error).message)
+  }
+}
+
+export async function scheduleChallengeMaintenance(): Promise<void> {
+  try {
+    await leaderboardQueue.upsertJobScheduler(
+      'challenge-maintenance',
+      { pattern: '10 * * * *' }, // hourly
+      { name: 'process-challenges' },
+    )
+  } catch (err) {
+    console.warn('[Challenges] Queue unavailable, maintenance not scheduled:', (err as Error).message)
+  }
+}
+
+/**
+ * Queue an admin-triggered rebuild. Returns null when the queue is unavailable.
+ */
+export async function enqueueLeaderboardRebuild(actorId: string): Promise<string | null> {
+  try {
+    const job = await leaderboardQueue.add('rebuild-leaderboards', { actorId } satisfies LeaderboardJobData)
+    return job.id ?? null
+  } catch (err) {
+    console.warn('[Leaderboard] Queue unavailable, rebuild not queued:', (err as Error).message)
+    return null
+  }
+}
+
 export { Worker, type Job }
 export { connection as queueConnection }
@@ -0,0 +1,119 @@
+import { Worker, type Job } from 'bullmq'
+import { prisma } from '../database/prisma.client.js'
+import { env } from '../../config/env.js'
+import { queueConnection, ENGAGEMENT_QUEUE, enqueueNotification } from './bullmq.client.js'
+
+const EXPIRED_FAIL_REASON = 'Prazo do engajamento encerrado'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Close engagements whose endDate has passed and fail every unfinished participant.
+ */
+async function closeExpiredEngagements(now: Date): Promise<number> {
+  const expired = await prisma.engajamento.findMany({
+    where: { isActive: true, endDate: { lt: now } },
+    select: { id: true, title: true },
+  })
+
+  for (const eng of expired) {
+    const inProgress = await prisma.$transaction(async (tx) => {
+      // In-progress participants first, then read back exactly the rows this run failed,
+      // so someone completing the engagement meanwhile is not told they failed
+      await tx.engajamentoParticipant.updateMany({
+        where: { engajamentoId: eng.id, status: 'in_progress' },
+        data: { status: 'failed', failedAt: now, failReason: EXPIRED_FAIL_REASON },
+      })
+      const failed = await tx.engajamentoParticipant.findMany({
+        where: { engajamentoId: eng.id, status: 'failed', failedAt: now, failReason: EXPIRED_FAIL_REASON },
+        select: { userId: true },
+      })
+      await tx.engajamentoParticipant.updateMany({
+        where: { engajamentoId: eng.id, status: 'not_started' },
+        data: { status: 'failed', failedAt: now, failReason: EXPIRED_FAIL_REASON },
+      })
+      await tx.engajamento.update({ where: { id: eng.id }, data: { isActive: false } })
+      await tx.auditLog.create({
+        data: {
+          action: 'engagement.expired',
+          resourceType: 'engajamento',
+          resourceId: eng.id,
+          metadata: { failedInProgress: failed.length },
+        },
+      })
+      return failed
+    })
+
+    for (const p of inProgress) {
+      await enqueueNotification({
+        userId: p.userId,
+        type: 'system',
+        title: 'Engajamento encerrado',
+        message: `O prazo de "${eng.title}" terminou antes de você concluir todas as ações.`,
+        data: { engajamentoId: eng.id, reason: EXPIRED_FAIL_REASON },
+      })
+    }
+  }
+
+  return expired.length
+}
+
+/**
+ * Remind in-progress participants ENGAGEMENT_REMINDER_DAYS before the deadline.
+ * Runs hourly; `reminderSentAt` on the participant keeps it to one reminder per engagement.
+ */
+async function sendDeadlineReminders(now: Date): Promise<number> {
+  const reminderLimit = new Date(now.getTime() + env.ENGAGEMENT_REMINDER_DAYS * DAY_MS)
+
+  const closing = await prisma.engajamento.findMany({
+    where: { isActive: true, endDate: { gte: now, lte: reminderLimit } },
+    select: {
+      id: true,
+      title: true,
+      endDate: true,
+      participants: { where: { status: 'in_progress', reminderSentAt: null }, select: { id: true, userId: true } },
+    },
+  })
+
+  let sent = 0
+  for (const eng of closing) {
+    const daysLeft = Math.max(1, Math.ceil((eng.endDate!.getTime() - now.getTime()) / DAY_MS))
+
+    for (const p of eng.participants) {
+      // Claim the reminder first so an overlapping run cannot send it twice
+      const { count } = await prisma.engajamentoParticipant.updateMany({
+        where: { id: p.id, reminderSentAt: null },
+        data: { reminderSentAt: now },
+      })
+      if (count === 0) continue
+
+      await enqueueNotification({
+        userId: p.userId,
+        type: 'system',
+        title: 'Engajamento perto do fim',
+        message: `Faltam ${daysLeft} dia(s) para concluir "${eng.title}".`,
+        data: { reminderFor: eng.id, endDate: eng.endDate!.toISOString() },
+      })
+      sent++
+    }
+  }
+
+  return sent
+}
+
+async function processEngagementJob(_job: Job): Promise<void> {
+  const now = new Date()
+  const closed = await closeExpiredEngagements(now)
+  const reminders = await sendDeadlineReminders(now)
+  console.log(`[Engagement] Maintenance: closed=${closed} reminders=${reminders}`)
+}
+
+export function createEngagementWorker(): Worker {
+  return new Worker(
+    ENGAGEMENT_QUEUE,
+    processEngagementJob,
+    {
+      connection: queueConnection,
+      concurrency: 1,
+    },
+  )
+}
@@ -1,11 +1,21 @@
 import { Worker, type Job } from 'bullmq'
+import { Prisma, type UserRole } from '@prisma/client'
 import { prisma } from '../database/prisma.client.js'
-import { updateLeaderboardScore } from '../cache/redis.client.js'
-import { checkLevelUp, calculateXpForNextLevel } from '../../shared/utils/level-calculator.js'
+import { checkLevelUp, calculateXpForNextLevel, getLevelTitle } from '../../shared/utils/level-calculator.js'
+import { resolveTimeZone } from '../../shared/utils/date.js'
+import { evaluateGoalProgressUseCase } from '../../application/goals/evaluate-goal-progress.usecase.js'
+import { evaluateTeamGoalProgressUseCase } from '../../application/goals/evaluate-team-goal-progress.usecase.js'
+import { evaluateEngagementProgressUseCase } from '../../application/engagements/evaluate-engagement-progress.usecase.js'
+import { evaluateAchievementsUseCase } from '../../application/achievements/evaluate-achievements.usecase.js'
+import { evaluateDailyMissionsUseCase } from '../../application/daily-missions/evaluate-daily-missions.usecase.js'
+import { GAMIFICATION_DUPLICATE_ACTION } from '../../application/gamification/award-xp.usecase.js'
+import { getLevelCurveUseCase } from '../../application/gamification/level-curve.usecase.js'
+import { recordLeaderboardXp } from '../../application/ranking/leaderboard.usecase.js'
+import { recordSeasonXp } from '../../application/seasons/season-leaderboard.usecase.js'
 import { queueConnection, GAMIFICATION_QUEUE, type GamificationJobData, enqueueNotification } from './bullmq.client.js'
 
 async function processGamificationJob(job: Job<GamificationJobData>): Promise<void> {
-  const { userId, action, xp = 0, stars = 0, context } = job.data
+  const { userId, action, xp = 0, stars = 0, sourceType, sourceId, idempotencyKey, context } = job.data
 
   console.log(`[Gamification] Processing job: userId=${userId} action=${action} xp=${xp} stars=${stars}`)
 
@@ -21,27 +31,110 @@ async function processGamificationJob(job: Job<GamificationJobData>): Promise<vo
     return
   }
 
-  const oldXp = user.xp
-  const newXp = user.xp + xp
-  const newStars = user.estrelas + stars
+  if (idempotencyKey) {
+    const applied = await prisma.xpLedgerEntry.findUnique({
+      where: { idempotencyKey },
+      select: { id: true },
+    })
+    if (applied) {
+      await rejectDuplicate(job, applied.id)
+      // An earlier attempt of this same job committed the award but died before the
+      // evaluators ran; they are safe to run again, the balance is not touched
+      if (job.attemptsMade > 0 && (await wasAppliedByJob(job, applied.id))) {
+        await runEvaluators(job, user)
+      }
+      return
+    }
+  }
 
-  const levelCheck = checkLevelUp(oldXp, newXp)
-  const newLevel = levelCheck.newLevel
-  const newXpProximo = calculateXpForNextLevel(newLevel)
+  const curve = await getLevelCurveUseCase()
 
-  // Update user
-  await prisma.user.update({
-    where: { id: userId },
-    data: {
-      xp: newXp,
-      estrelas: newStars,
-      nivel: newLevel,
-      xpProximo: newXpProximo,
-    },
-  })
+  // Update balance and append the ledger entry atomically (increments avoid lost updates
+  // between concurrent jobs for the same user)
+  let result: { newXp: number; levelCheck: ReturnType<typeof checkLevelUp> }
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: {
+          xp: { increment: xp },
+          estrelas: { increment: stars },
+        },
+        select: { xp: true, estrelas: true },
+      })
+
+      const check = checkLevelUp(updated.xp - xp, updated.xp, curve)
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          nivel: check.newLevel,
+          xpProximo: calculateXpForNextLevel(check.newLevel, curve),
+        },
+      })
+
+      // Keyed awards are always recorded, even without a reward, so replays can be detected
+      const ledgerEntry = xp !== 0 || stars !== 0 || idempotencyKey
+        ? await tx.xpLedgerEntry.create({
+          data: {
+            userId,
+            action,
+            sourceType: sourceType ?? null,
+            sourceId: sourceId ?? null,
+            xpDelta: xp,
+            starsDelta: stars,
+            xpBalance: updated.xp,
+            starsBalance: updated.estrelas,
+            metadata: context ? JSON.parse(JSON.stringify(context)) : undefined,
+            idempotencyKey: idempotencyKey ?? null,
+          },
+          select: { id: true },
+        })
+        : null
+
+      const ledgerEntryId = ledgerEntry?.id ?? null
+      // Written with the award so a retry can tell its own committed attempt from another job's
+      await tx.auditLog.create({
+        data: {
+          actorId: userId,
+          action: `gamification.${action}`,
+          resourceType: 'user',
+          resourceId: userId,
+          metadata: {
+            xp,
+            stars,
+            newTotal: updated.xp,
+            leveledUp: check.leveledUp,
+            ledgerEntryId,
+            jobId: job.id ?? null,
+          },
+        },
+      })
+
+      return { newXp: updated.xp, levelCheck: check }
+    })
+  } catch (err) {
+    // A concurrent job with the same key committed first - its balance update stands, ours rolled back
+    if (idempotencyKey && err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      await rejectDuplicate(job, null)
+      return
+    }
+    throw err
+  }
+  const { newXp, levelCheck } = result
+  const newLevel = levelCheck.newLevel
 
-  // Update Redis leaderboard
-  await updateLeaderboardScore(userId, newXp)
+  // Update Redis leaderboards (global, department, team and the week/month windows)
+  try {
+    await recordLeaderboardXp({ user, xp: newXp, xpDelta: xp, now: new Date(job.timestamp) })
+  } catch (err) {
+    // The ledger is already written, a retry would be rejected as duplicate
+    console.error(`[Gamification] Leaderboard update failed for user ${userId}:`, (err as Error).message)
+  }
+  try {
+    await recordSeasonXp({ user, xpDelta: xp, now: new Date(job.timestamp) })
+  } catch (err) {
+    console.error(`[Gamification] Season leaderboard update failed for user ${userId}:`, (err as Error).message)
+  }
 
   // Create notification for XP
   if (xp > 0) {
@@ -56,23 +149,117 @@ async function processGamificationJob(job: Job<GamificationJobData>): Promise<vo
 
   // Create notification for level up
   if (levelCheck.leveledUp) {
+    const levelTitle = getLevelTitle(newLevel, curve)
     await enqueueNotification({
       userId,
       type: 'level_up',
       title: `Subiu para Nível ${newLevel}!`,
-      message: `Parabéns! Você alcançou o nível ${newLevel}!`,
-      data: { oldLevel: levelCheck.oldLevel, newLevel },
+      message: levelTitle
+        ? `Parabéns! Você alcançou o nível ${newLevel}: ${levelTitle.title}!`
+        : `Parabéns! Você alcançou o nível ${newLevel}!`,
+      data: {
+        oldLevel: levelCheck.oldLevel,
+        newLevel,
+        title: levelTitle?.title ?? null,
+        badge: levelTitle?.badge ?? null,
+      },
     })
   }
 
-  // Audit log
+  await runEvaluators(job, user)
+}
+
+// Goal criteria, engagement requirements, daily missions and achievements - failures must not retry (and re-credit) the XP award
+async function runEvaluators(
+  job: Job<GamificationJobData>,
+  user: { id: string; role: UserRole; managerId: string | null; timezone: string | null },
+): Promise<void> {
+  const { action, context } = job.data
+  const userId = user.id
+
+  try {
+    await evaluateGoalProgressUseCase({ userId, action, context, occurredAt: new Date(job.timestamp) })
+  } catch (err) {
+    console.error(`[Gamification] Goal evaluation failed for user ${userId}:`, (err as Error).message)
+  }
+
+  try {
+    await evaluateTeamGoalProgressUseCase({
+      userId,
+      managerId: user.managerId,
+      action,
+      context,
+      occurredAt: new Date(job.timestamp),
+    })
+  } catch (err) {
+    console.error(`[Gamification] Team goal evaluation failed for user ${userId}:`, (err as Error).message)
+  }
+
+  try {
+    await evaluateEngagementProgressUseCase({ userId, userRole: user.role })
+  } catch (err) {
+    console.error(`[Gamification] Engagement evaluation failed for user ${userId}:`, (err as Error).message)
+  }
+
+  try {
+    await evaluateDailyMissionsUseCase({
+      userId,
+      userRole: user.role,
+      timeZone: resolveTimeZone(user.timezone),
+      now: new Date(job.timestamp),
+    })
+  } catch (err) {
+    console.error(`[Gamification] Daily mission evaluation failed for user ${userId}:`, (err as Error).message)
+  }
+
+  try {
+    await evaluateAchievementsUseCase({ userId, userRole: user.role })
+  } catch (err) {
+    console.error(`[Gamification] Achievement evaluation failed for user ${userId}:`, (err as Error).message)
+  }
+}
+
+// The award audit entry is written in the same transaction as the ledger entry
+async function wasAppliedByJob(job: Job<GamificationJobData>, ledgerEntryId: string): Promise<boolean> {
+  if (!job.id) return false
+  const entry = await prisma.auditLog.findFirst({
+    where: {
+      action: `gamification.${job.data.action}`,
+      resourceType: 'user',
+      resourceId: job.data.userId,
+      metadata: { path: ['ledgerEntryId'], equals: ledgerEntryId },
+    },
+    select: { metadata: true },
+  })
+  const metadata = entry?.metadata as { jobId?: string | null } | null | undefined
+  return metadata?.jobId === job.id
+}
+
+/**
+ * Record a replayed award (duplicate request or BullMQ retry after a partial failure)
+ * without touching the balance. Listed in GET /gamification/duplicates.
+ */
+async function rejectDuplicate(job: Job<GamificationJobData>, ledgerEntryId: string | null): Promise<void> {
+  const { userId, action, xp = 0, stars = 0, sourceType, sourceId, idempotencyKey } = job.data
+  console.warn(`[Gamification] Duplicate rejected: key=${idempotencyKey} attempt=${job.attemptsMade + 1}`)
+
   await prisma.auditLog.create({
     data: {
       actorId: userId,
-      action: `gamification.${action}`,
+      action: GAMIFICATION_DUPLICATE_ACTION,
       resourceType: 'user',
       resourceId: userId,
-      metadata: { xp, stars, newTotal: newXp, leveledUp: levelCheck.leveledUp },
+      metadata: {
+        idempotencyKey,
+        action,
+        xp,
+        stars,
+        sourceType,
+        sourceId,
+        ledgerEntryId,
+        jobId: job.id,
+        retry: job.attemptsMade > 0,
+      },
     },
   })
 }
@@ -90,6 +277,10 @@ function formatAction(action: string): string {
     comentar_post: 'comentar em post',
     reagir_post: 'reagir a post',
     resgatar_recompensa: 'resgatar recompensa',
+    completar_engajamento: 'concluir um engajamento',
+    conquista_desbloqueada: 'desbloquear uma conquista',
+    premio_temporada: 'premiação de temporada',
+    vencer_desafio: 'vencer um desafio entre times',
   }
   return map[action] ?? action
 }
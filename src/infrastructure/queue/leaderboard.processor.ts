@@ -0,0 +1,36 @@
+import { Worker, type Job } from 'bullmq'
+import { rebuildLeaderboardsUseCase } from '../../application/ranking/rebuild-leaderboards.usecase.js'
+import { processSeasonsUseCase } from '../../application/seasons/finalize-season.usecase.js'
+import { processChallengesUseCase } from '../../application/challenges/challenge-scoreboard.usecase.js'
+import { queueConnection, LEADERBOARD_QUEUE, type LeaderboardJobData } from './bullmq.client.js'
+
+async function processLeaderboardJob(job: Job<LeaderboardJobData>): Promise<void> {
+  if (job.name === 'process-seasons') {
+    const result = await processSeasonsUseCase()
+    console.log(`[Seasons] Maintenance: started=${result.started} closed=${result.closed} delivered=${result.delivered}`)
+    return
+  }
+
+  if (job.name === 'process-challenges') {
+    const result = await processChallengesUseCase()
+    console.log(`[Challenges] Maintenance: started=${result.started} closed=${result.closed} delivered=${result.delivered}`)
+    return
+  }
+
+  const report = await rebuildLeaderboardsUseCase({ actorId: job.data.actorId ?? null })
+  console.log(
+    `[Leaderboard] Rebuild: keys=${report.keys} members=${report.members} missing=${report.missing} ` +
+    `stale=${report.stale} mismatched=${report.mismatched} removedKeys=${report.removedKeys} ${report.durationMs}ms`,
+  )
+}
+
+export function createLeaderboardWorker(): Worker {
+  return new Worker(
+    LEADERBOARD_QUEUE,
+    processLeaderboardJob,
+    {
+      connection: queueConnection,
+      concurrency: 1,
+    },
+  )
+}
@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 import { env } from '../../config/env.js'
 
@@ -17,17 +17,49 @@ const r2Client = new S3Client({
 export async function createUploadUrl(params: {
   key: string
   contentType: string
+  // Signed into the URL, so the upload is rejected unless the body has exactly this size
+  contentLength?: number
 }) {
   const command = new PutObjectCommand({
     Bucket: env.R2_BUCKET,
     Key: params.key,
     ContentType: params.contentType,
+    ContentLength: params.contentLength,
   })
 
   const uploadUrl = await getSignedUrl(r2Client, command, { expiresIn: 60 })
   return { uploadUrl }
 }
 
+export async function createDownloadUrl(key: string, expiresIn = 3600): Promise<string> {
+  const command = new GetObjectCommand({
+    Bucket: env.R2_BUCKET,
+    Key: key,
+  })
+  return getSignedUrl(r2Client, command, { expiresIn })
+}
+
+// Size and content type of a stored object, or null if it was never uploaded
+export async function getObjectInfo(key: string): Promise<{ size: number; contentType: string | null } | null> {
+  try {
+    const result = await r2Client.send(new HeadObjectCommand({
+      Bucket: env.R2_BUCKET,
+      Key: key,
+    }))
+    return { size: result.ContentLength ?? 0, contentType: result.ContentType ?? null }
+  } catch (err: any) {
+    if (err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404) return null
+    throw err
+  }
+}
+
+export async function deleteObject(key: string): Promise<void> {
+  await r2Client.send(new DeleteObjectCommand({
+    Bucket: env.R2_BUCKET,
+    Key: key,
+  }))
+}
+
 async function streamToBuffer(stream: any): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = []
@@ -24,9 +24,22 @@ import { analyticsRoutes } from './presentation/routes/v1/analytics.routes.js'
 import { notificationsRoutes } from './presentation/routes/v1/notifications.routes.js'
 import { aiRoutes } from './presentation/routes/v1/ai.routes.js'
 import { uploadsRoutes } from './presentation/routes/v1/uploads.routes.js'
+import { audiencesRoutes } from './presentation/routes/v1/audiences.routes.js'
+import { gamificationRoutes } from './presentation/routes/v1/gamification.routes.js'
+import { achievementsRoutes } from './presentation/routes/v1/achievements.routes.js'
+import { challengesRoutes } from './presentation/routes/v1/challenges.routes.js'
+import { moderationRoutes } from './presentation/routes/v1/moderation.routes.js'
 import { AppError } from './shared/errors/app-error.js'
 import { createGamificationWorker } from './infrastructure/queue/gamification.processor.js'
 import { createNotificationWorker } from './infrastructure/queue/notification.processor.js'
+import { createEngagementWorker } from './infrastructure/queue/engagement.processor.js'
+import { createLeaderboardWorker } from './infrastructure/queue/leaderboard.processor.js'
+import {
+  scheduleEngagementMaintenance,
+  scheduleLeaderboardRebuild,
+  scheduleSeasonMaintenance,
+  scheduleChallengeMaintenance,
+} from './infrastructure/queue/bullmq.client.js'
 
 async function build() {
   const fastify = Fastify({
@@ -125,6 +138,11 @@ async function build() {
   await fastify.register(notificationsRoutes, { prefix: `${V1_PREFIX}/notifications` })
   await fastify.register(aiRoutes, { prefix: `${V1_PREFIX}/ai` })
   await fastify.register(uploadsRoutes, { prefix: `${V1_PREFIX}/uploads` })
+  await fastify.register(audiencesRoutes, { prefix: `${V1_PREFIX}/audiences` })
+  await fastify.register(gamificationRoutes, { prefix: `${V1_PREFIX}/gamification` })
+  await fastify.register(achievementsRoutes, { prefix: `${V1_PREFIX}/achievements` })
+  await fastify.register(challengesRoutes, { prefix: `${V1_PREFIX}/challenges` })
+  await fastify.register(moderationRoutes, { prefix: `${V1_PREFIX}/moderation` })
 
   return fastify
 }
@@ -146,6 +164,20 @@ async function main() {
     notificationWorker.on('failed', (job, err) => {
       fastify.log.error(`[NotificationWorker] Job ${job?.id} failed: ${err.message}`)
     })
+
+    const engagementWorker = createEngagementWorker()
+    engagementWorker.on('failed', (job, err) => {
+      fastify.log.error(`[EngagementWorker] Job ${job?.id} failed: ${err.message}`)
+    })
+    await scheduleEngagementMaintenance()
+
+    const leaderboardWorker = createLeaderboardWorker()
+    leaderboardWorker.on('failed', (job, err) => {
+      fastify.log.error(`[LeaderboardWorker] Job ${job?.id} failed: ${err.message}`)
+    })
+    await scheduleLeaderboardRebuild()
+    await scheduleSeasonMaintenance()
+    await scheduleChallengeMaintenance()
   }
 
   try {
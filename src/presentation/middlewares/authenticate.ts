@@ -1,5 +1,7 @@
 import type { FastifyRequest, FastifyReply } from 'fastify'
 import { UnauthorizedError } from '../../shared/errors/app-error.js'
+import { registerDailyAccessUseCase } from '../../application/gamification/register-daily-access.usecase.js'
+import { getUserTimezone } from '../../application/auth/user-timezone.usecase.js'
 
 export async function authenticate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
   try {
@@ -7,4 +9,14 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
   } catch {
     throw new UnauthorizedError('Invalid or expired token')
   }
+
+  // The token's timezone is stale until the next refresh; "today" must match what the workers use
+  request.user.timezone = await getUserTimezone(request.user.id)
+
+  // First authenticated request of the day counts as the daily access
+  try {
+    await registerDailyAccessUseCase(request.user)
+  } catch (err) {
+    request.log.warn(`[DailyAccess] Failed to register access for ${request.user.id}: ${(err as Error).message}`)
+  }
 }
@@ -0,0 +1,123 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../../infrastructure/database/prisma.client.js'
+import { authenticate } from '../../middlewares/authenticate.js'
+import { authorize } from '../../middlewares/authorize.js'
+import { NotFoundError } from '../../../shared/errors/app-error.js'
+import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+
+const AchievementRuleSchema = z.enum([
+  'feedbacks_recebidos', 'feedbacks_enviados', 'sequencia_acesso', 'treinamentos_concluidos',
+  'treinamento_nota_maxima', 'posts_publicados', 'pesquisas_respondidas', 'eventos_participados',
+  'humor_registrado', 'missoes_concluidas', 'engajamentos_concluidos', 'nivel_alcancado', 'xp_total',
+])
+
+export async function achievementsRoutes(fastify: FastifyInstance): Promise<void> {
+  // GET /achievements - badge catalog (inactive badges only for super_admin)
+  fastify.get('/', {
+    preHandler: [authenticate],
+    schema: { tags: ['Achievements'], summary: 'List achievements' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      rule: AchievementRuleSchema.optional(),
+      includeInactive: z.coerce.boolean().optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where: any = {}
+    if (!(query.includeInactive && request.user.role === 'super_admin')) where.isActive = true
+    if (query.rule) where.rule = query.rule
+
+    const [achievements, total] = await Promise.all([
+      prisma.achievement.findMany({
+        where,
+        skip,
+        take,
+        orderBy: [{ rule: 'asc' }, { threshold: 'asc' }],
+        include: { _count: { select: { unlocks: true } } },
+      }),
+      prisma.achievement.count({ where }),
+    ])
+
+    return reply.send({ data: achievements, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /achievements/:id
+  fastify.get('/:id', {
+    preHandler: [authenticate],
+    schema: { tags: ['Achievements'], summary: 'Get achievement by ID' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const achievement = await prisma.achievement.findUnique({
+      where: { id },
+      include: { _count: { select: { unlocks: true } } },
+    })
+    if (!achievement || (!achievement.isActive && request.user.role !== 'super_admin')) {
+      throw new NotFoundError('Achievement', id)
+    }
+
+    return reply.send({ data: achievement })
+  })
+
+  // POST /achievements (super_admin)
+  fastify.post('/', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Achievements'], summary: 'Create achievement (super_admin)' },
+  }, async (request, reply) => {
+    const body = z.object({
+      nome: z.string().min(1),
+      descricao: z.string().optional(),
+      icon: z.string().optional(),
+      rule: AchievementRuleSchema,
+      threshold: z.number().int().min(1).default(1),
+      rewardXP: z.number().int().min(0).default(0),
+      rewardStars: z.number().int().min(0).default(0),
+    }).parse(request.body)
+
+    const achievement = await prisma.achievement.create({
+      data: { ...body, createdById: request.user.id },
+    })
+    return reply.code(201).send({ data: achievement })
+  })
+
+  // PUT /achievements/:id (super_admin)
+  fastify.put('/:id', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Achievements'], summary: 'Update achievement (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const body = z.object({
+      nome: z.string().min(1).optional(),
+      descricao: z.string().nullable().optional(),
+      icon: z.string().nullable().optional(),
+      rule: AchievementRuleSchema.optional(),
+      threshold: z.number().int().min(1).optional(),
+      rewardXP: z.number().int().min(0).optional(),
+      rewardStars: z.number().int().min(0).optional(),
+      isActive: z.boolean().optional(),
+    }).parse(request.body)
+
+    const existing = await prisma.achievement.findUnique({ where: { id } })
+    if (!existing) throw new NotFoundError('Achievement', id)
+
+    const achievement = await prisma.achievement.update({ where: { id }, data: body })
+    return reply.send({ data: achievement })
+  })
+
+  // DELETE /achievements/:id (super_admin) - deactivates; existing unlocks are kept
+  fastify.delete('/:id', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Achievements'], summary: 'Deactivate achievement (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const existing = await prisma.achievement.findUnique({ where: { id } })
+    if (!existing) throw new NotFoundError('Achievement', id)
+
+    await prisma.achievement.update({ where: { id }, data: { isActive: false } })
+    return reply.code(204).send()
+  })
+}
@@ -0,0 +1,23 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { authenticate } from '../../middlewares/authenticate.js'
+import { authorize } from '../../middlewares/authorize.js'
+import { resolveAudienceUsers } from '../../../application/audience/resolve-audience.usecase.js'
+
+export async function audiencesRoutes(fastify: FastifyInstance): Promise<void> {
+  // POST /audiences/preview - resolve an audience definition to users (gestor+)
+  fastify.post('/preview', {
+    preHandler: [authenticate, authorize(['gestor'])],
+    schema: { tags: ['Audiences'], summary: 'Preview users matched by an audience definition (gestor+)' },
+  }, async (request, reply) => {
+    const body = z.object({
+      type: z.enum(['todo_time', 'colaboradores_especificos', 'por_departamento']),
+      targetIds: z.array(z.string()).default([]),
+      roles: z.array(z.enum(['super_admin', 'gestor', 'colaborador'])).min(1).default(['colaborador']),
+    }).parse(request.body)
+
+    const users = await resolveAudienceUsers({ type: body.type, targetIds: body.targetIds }, body.roles)
+
+    return reply.send({ data: users, meta: { total: users.length } })
+  })
+}
@@ -92,6 +92,7 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         telefone: true,
         localizacao: true,
         hiredAt: true,
+        timezone: true,
         isActive: true,
         managerId: true,
         createdAt: true,
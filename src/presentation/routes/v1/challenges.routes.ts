@@ -0,0 +1,213 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../../infrastructure/database/prisma.client.js'
+import { authenticate } from '../../middlewares/authenticate.js'
+import { authorize } from '../../middlewares/authorize.js'
+import { ConflictError, NotFoundError, ValidationError } from '../../../shared/errors/app-error.js'
+import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import { getChallengeScoreboardUseCase } from '../../../application/challenges/challenge-scoreboard.usecase.js'
+
+// Participants must be existing gestores (times) or departamentos with active colaboradores
+async function validateParticipants(tipo: 'times' | 'departamentos', targetIds: string[]): Promise<void> {
+  const unique = [...new Set(targetIds)]
+  if (unique.length < 2) throw new ValidationError('A challenge needs at least 2 distinct participants')
+
+  if (tipo === 'times') {
+    const gestores = await prisma.user.findMany({
+      where: { id: { in: unique }, role: 'gestor', isActive: true },
+      select: { id: true },
+    })
+    const missing = unique.find(id => !gestores.some(g => g.id === id))
+    if (missing) throw new NotFoundError('Gestor', missing)
+    return
+  }
+
+  const departamentos = await prisma.user.groupBy({
+    by: ['departamento'],
+    where: { departamento: { in: unique }, role: 'colaborador', isActive: true },
+  })
+  const missing = unique.find(d => !departamentos.some(g => g.departamento === d))
+  if (missing) throw new ValidationError(`Department "${missing}" has no active colaboradores`)
+}
+
+export async function challengesRoutes(fastify: FastifyInstance): Promise<void> {
+  // GET /challenges
+  fastify.get('/', {
+    preHandler: [authenticate],
+    schema: { tags: ['Challenges'], summary: 'List challenges' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      status: z.enum(['scheduled', 'active', 'closed']).optional(),
+      tipo: z.enum(['times', 'departamentos']).optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where: any = {}
+    if (query.status) where.status = query.status
+    if (query.tipo) where.tipo = query.tipo
+
+    const [challenges, total] = await Promise.all([
+      prisma.challenge.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { startsAt: 'desc' },
+        include: { participants: true },
+      }),
+      prisma.challenge.count({ where }),
+    ])
+
+    return reply.send({ data: challenges, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /challenges/:id
+  fastify.get('/:id', {
+    preHandler: [authenticate],
+    schema: { tags: ['Challenges'], summary: 'Get challenge' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const challenge = await prisma.challenge.findUnique({
+      where: { id },
+      include: { participants: true },
+    })
+    if (!challenge) throw new NotFoundError('Challenge', id)
+
+    return reply.send({ data: challenge })
+  })
+
+  // GET /challenges/:id/scoreboard - live while running, frozen once closed
+  fastify.get('/:id/scoreboard', {
+    preHandler: [authenticate],
+    schema: { tags: ['Challenges'], summary: 'Challenge scoreboard' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const { challenge, final, scoreboard } = await getChallengeScoreboardUseCase(id)
+
+    // Highlight the side the requesting user belongs to
+    const me = await prisma.user.findUnique({
+      where: { id: request.user.id },
+      select: { managerId: true, departamento: true },
+    })
+    const mySide = challenge.tipo === 'times'
+      ? (request.user.role === 'gestor' ? request.user.id : me?.managerId)
+      : me?.departamento
+
+    return reply.send({
+      data: {
+        challenge,
+        final,
+        scoreboard: scoreboard.map(s => ({ ...s, isCurrentUserSide: s.targetId === mySide })),
+      },
+    })
+  })
+
+  // POST /challenges (super_admin)
+  fastify.post('/', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Challenges'], summary: 'Create challenge (super_admin)' },
+  }, async (request, reply) => {
+    const body = z.object({
+      nome: z.string().min(1),
+      descricao: z.string().optional(),
+      tipo: z.enum(['times', 'departamentos']),
+      scoring: z.enum(['total', 'media']).default('media'),
+      startsAt: z.string().datetime(),
+      endsAt: z.string().datetime(),
+      rewardXP: z.number().int().min(0).default(0),
+      rewardStars: z.number().int().min(0).default(0),
+      participants: z.array(z.string().min(1)).min(2),
+    }).refine(b => new Date(b.startsAt) < new Date(b.endsAt), {
+      message: 'endsAt must be after startsAt',
+      path: ['endsAt'],
+    }).parse(request.body)
+
+    if (new Date(body.endsAt) <= new Date()) throw new ValidationError('endsAt must be in the future')
+    await validateParticipants(body.tipo, body.participants)
+
+    const { participants, ...data } = body
+    const startsAt = new Date(body.startsAt)
+    const challenge = await prisma.challenge.create({
+      data: {
+        ...data,
+        startsAt,
+        endsAt: new Date(body.endsAt),
+        status: startsAt <= new Date() ? 'active' : 'scheduled',
+        createdById: request.user.id,
+        participants: { create: [...new Set(participants)].map(targetId => ({ targetId })) },
+      },
+      include: { participants: true },
+    })
+    return reply.code(201).send({ data: challenge })
+  })
+
+  // PUT /challenges/:id (super_admin) - only before the challenge starts
+  fastify.put('/:id', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Challenges'], summary: 'Update challenge (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const body = z.object({
+      nome: z.string().min(1).optional(),
+      descricao: z.string().nullable().optional(),
+      tipo: z.enum(['times', 'departamentos']).optional(),
+      scoring: z.enum(['total', 'media']).optional(),
+      startsAt: z.string().datetime().optional(),
+      endsAt: z.string().datetime().optional(),
+      rewardXP: z.number().int().min(0).optional(),
+      rewardStars: z.number().int().min(0).optional(),
+      participants: z.array(z.string().min(1)).min(2).optional(),
+    }).parse(request.body)
+
+    const existing = await prisma.challenge.findUnique({ where: { id }, include: { participants: true } })
+    if (!existing) throw new NotFoundError('Challenge', id)
+    if (existing.startsAt <= new Date()) throw new ConflictError('Challenge already started')
+
+    const startsAt = body.startsAt ? new Date(body.startsAt) : existing.startsAt
+    const endsAt = body.endsAt ? new Date(body.endsAt) : existing.endsAt
+    if (startsAt >= endsAt) throw new ValidationError('endsAt must be after startsAt')
+
+    const tipo = body.tipo ?? existing.tipo
+    const participants = body.participants ?? existing.participants.map(p => p.targetId)
+    if (body.tipo || body.participants) await validateParticipants(tipo, participants)
+
+    const { participants: _participants, ...data } = body
+    const challenge = await prisma.challenge.update({
+      where: { id },
+      data: {
+        ...data,
+        startsAt,
+        endsAt,
+        status: startsAt <= new Date() ? 'active' : 'scheduled',
+        ...(body.participants
+          ? {
+              participants: {
+                deleteMany: {},
+                create: [...new Set(body.participants)].map(targetId => ({ targetId })),
+              },
+            }
+          : {}),
+      },
+      include: { participants: true },
+    })
+    return reply.send({ data: challenge })
+  })
+
+  // DELETE /challenges/:id (super_admin) - only before the challenge starts
+  fastify.delete('/:id', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Challenges'], summary: 'Delete challenge (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const existing = await prisma.challenge.findUnique({ where: { id } })
+    if (!existing) throw new NotFoundError('Challenge', id)
+    if (existing.startsAt <= new Date()) throw new ConflictError('Challenge already started')
+
+    await prisma.challenge.delete({ where: { id } })
+    return reply.code(204).send()
+  })
+}
@@ -3,7 +3,8 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase, XP_REWARDS, STAR_REWARDS } from '../../../application/gamification/award-xp.usecase.js'
+import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import { getActionReward } from '../../../application/gamification/reward-rules.usecase.js'
 import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
 
@@ -197,18 +198,21 @@ export async function coursesRoutes(fastify: FastifyInstance): Promise<void> {
         userRole: request.user.role,
         action: 'completar_treinamento',
         xp: lessonXp,
+        source: { type: 'lesson', id: lessonId },
         context: { courseId: id, lessonId },
       })
     }
 
     // Award XP for completing the whole course
     if (isCompleted) {
+      const reward = await getActionReward('completar_treinamento')
       await awardXpUseCase({
         userId: request.user.id,
         userRole: request.user.role,
         action: 'completar_treinamento',
         xp: course.rewardXP,
-        stars: STAR_REWARDS.completar_treinamento,
+        stars: reward.stars,
+        source: { type: 'course', id },
         context: { courseId: id, courseCompleted: true },
       })
     }
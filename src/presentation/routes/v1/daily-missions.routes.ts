@@ -3,70 +3,83 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
-import { NotFoundError, ConflictError } from '../../../shared/errors/app-error.js'
+import { NotFoundError, ConflictError, ForbiddenError, ValidationError } from '../../../shared/errors/app-error.js'
+import { getAudienceMember, isInAudience } from '../../../application/audience/resolve-audience.usecase.js'
+import {
+  getMissionDay,
+  getTodayMissionsForUser,
+  getMissionProgress,
+  completeDailyMission,
+} from '../../../application/daily-missions/evaluate-daily-missions.usecase.js'
+import { resolveTimeZone } from '../../../shared/utils/date.js'
 
 export async function dailyMissionsRoutes(fastify: FastifyInstance): Promise<void> {
-  // GET /daily-missions - get today's missions for user
+  // GET /daily-missions - get today's missions for user, with progress
   fastify.get('/', {
     preHandler: [authenticate],
     schema: { tags: ['Daily Missions'], summary: "Get today's missions" },
   }, async (request, reply) => {
-    const today = new Date()
-    const dayOfWeek = today.getDay() // 0=Sun...6=Sat
-    const todayStr = today.toISOString().split('T')[0]
-
-    const missions = await prisma.dailyMission.findMany({
-      where: {
-        isActive: true,
-        diasAtivos: { has: dayOfWeek },
-      },
-    })
+    const day = getMissionDay(resolveTimeZone(request.user.timezone))
+    const missions = await getTodayMissionsForUser(request.user.id, day.dayOfWeek)
 
     const missionIds = missions.map(m => m.id)
     const completions = await prisma.dailyMissionCompletion.findMany({
       where: {
         missionId: { in: missionIds },
         userId: request.user.id,
-        date: todayStr,
+        date: day.date,
       },
       select: { missionId: true },
     })
     const completedSet = new Set(completions.map(c => c.missionId))
 
-    return reply.send({
-      data: missions.map(m => ({ ...m, completed: completedSet.has(m.id) })),
-    })
+    const data = await Promise.all(missions.map(async (m) => {
+      const completed = completedSet.has(m.id)
+      const progress = completed
+        ? { current: Math.max(1, m.target), target: Math.max(1, m.target) }
+        : await getMissionProgress(request.user.id, m, day)
+      return { ...m, completed, progress: { current: progress.current, target: progress.target } }
+    }))
+
+    return reply.send({ data })
   })
 
-  // POST /daily-missions/:id/complete
+  // POST /daily-missions/:id/complete - claim a mission; requirements are verified server-side
   fastify.post('/:id/complete', {
     preHandler: [authenticate],
     schema: { tags: ['Daily Missions'], summary: 'Complete daily mission' },
   }, async (request, reply) => {
     const { id } = z.object({ id: z.string() }).parse(request.params)
-    const today = new Date().toISOString().split('T')[0]
+    const day = getMissionDay(resolveTimeZone(request.user.timezone))
 
     const mission = await prisma.dailyMission.findUnique({ where: { id } })
     if (!mission || !mission.isActive) throw new NotFoundError('Mission', id)
 
+    const member = await getAudienceMember(request.user.id)
+    if (!isInAudience({ type: mission.publicoAlvoType, targetIds: mission.targetIds }, member)) {
+      throw new ForbiddenError('Mission not available for your audience')
+    }
+    if (!mission.diasAtivos.includes(day.dayOfWeek)) {
+      throw new ForbiddenError('Mission not active today')
+    }
+
     const existing = await prisma.dailyMissionCompletion.findUnique({
-      where: { missionId_userId_date: { missionId: id, userId: request.user.id, date: today } },
+      where: { missionId_userId_date: { missionId: id, userId: request.user.id, date: day.date } },
     })
     if (existing) throw new ConflictError('Mission already completed today')
 
-    const completion = await prisma.dailyMissionCompletion.create({
-      data: { missionId: id, userId: request.user.id, date: today },
-    })
+    const progress = await getMissionProgress(request.user.id, mission, day)
+    if (!progress.completed) {
+      throw new ValidationError(`Mission requirements not met (${progress.current}/${progress.target})`)
+    }
 
-    await awardXpUseCase({
+    const completion = await completeDailyMission({
       userId: request.user.id,
       userRole: request.user.role,
-      action: 'completar_missao',
-      xp: mission.rewardXP,
-      stars: mission.rewardStars,
-      context: { missionId: id },
+      mission,
+      date: day.date,
     })
+    if (!completion) throw new ConflictError('Mission already completed today')
 
     return reply.code(201).send({ data: completion })
   })
@@ -79,7 +92,9 @@ export async function dailyMissionsRoutes(fastify: FastifyInstance): Promise<voi
     const body = z.object({
       nome: z.string().min(1),
       descricao: z.string().optional(),
-      actionType: z.string(),
+      actionType: z.enum(['acessar_plataforma', 'completar_treinamento', 'interagir_feed', 'dar_feedback',
+        'responder_pesquisa', 'participar_evento', 'acessar_consecutivo', 'resgatar_recompensa',
+        'registrar_humor', 'criar_post', 'comentar_post', 'reagir_post']),
       target: z.number().int().min(1).default(1),
       rewardXP: z.number().int().min(0).default(50),
       rewardStars: z.number().int().min(0).default(0),
@@ -89,7 +104,7 @@ export async function dailyMissionsRoutes(fastify: FastifyInstance): Promise<voi
     }).parse(request.body)
 
     const mission = await prisma.dailyMission.create({
-      data: { ...body, actionType: body.actionType as any },
+      data: body,
     })
     return reply.code(201).send({ data: mission })
   })
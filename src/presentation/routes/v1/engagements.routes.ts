@@ -1,12 +1,45 @@
 import type { FastifyInstance } from 'fastify'
+import type { PublicoAlvoType } from '@prisma/client'
 import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
-import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
+import {
+  applyParticipantProgress,
+  getActionRequirementsProgress,
+} from '../../../application/engagements/evaluate-engagement-progress.usecase.js'
+import {
+  buildAudienceWhere,
+  getAudienceMember,
+  isInAudience,
+  resolveAudienceUsers,
+} from '../../../application/audience/resolve-audience.usecase.js'
+import { NotFoundError, ForbiddenError, ConflictError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
 
+// Concurrent completions by the same participant re-read and retry this many times
+const MAX_ACTION_COMPLETE_ATTEMPTS = 3
+
+async function assertEngagementAudience(
+  eng: { publicoAlvoType: PublicoAlvoType; targetIds: string[] },
+  userId: string,
+): Promise<void> {
+  const member = await getAudienceMember(userId)
+  if (!isInAudience({ type: eng.publicoAlvoType, targetIds: eng.targetIds }, member)) {
+    throw new ForbiddenError('Engagement not available for your audience')
+  }
+}
+
+function assertWithinWindow(eng: { startDate: Date | null; endDate: Date | null }): void {
+  const now = new Date()
+  if (eng.startDate && eng.startDate > now) {
+    throw new ForbiddenError('Engagement has not started yet')
+  }
+  if (eng.endDate && eng.endDate < now) {
+    throw new ForbiddenError('Engagement has ended')
+  }
+}
+
 export async function engagementsRoutes(fastify: FastifyInstance): Promise<void> {
   // GET /engagements
   fastify.get('/', {
@@ -20,7 +53,8 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
     }).parse(request.query)
 
     const { skip, take, page, limit } = getPaginationParams(query)
-    const where: any = {}
+    const member = await getAudienceMember(request.user.id)
+    const where: any = buildAudienceWhere('publicoAlvoType', 'targetIds', member)
     if (query.active !== undefined) where.isActive = query.active
 
     const [engagements, total] = await Promise.all([
@@ -74,8 +108,20 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
       },
     })
     if (!eng) throw new NotFoundError('Engagement', id)
+    await assertEngagementAudience(eng, request.user.id)
+
+    // Live requirement progress for the current user's automatic participation
+    const own = await prisma.engajamentoParticipant.findUnique({
+      where: { engajamentoId_userId: { engajamentoId: id, userId: request.user.id } },
+      select: { startedAt: true },
+    })
+    let requirements = null
+    if (own?.startedAt && eng.completionMethod !== 'manual') {
+      const since = eng.startDate && eng.startDate > own.startedAt ? eng.startDate : own.startedAt
+      requirements = await getActionRequirementsProgress(request.user.id, eng.requiredActions, since)
+    }
 
-    return reply.send({ data: eng })
+    return reply.send({ data: { ...eng, requirements } })
   })
 
   // POST /engagements (super_admin)
@@ -95,7 +141,9 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
       targetIds: z.array(z.string()).default([]),
       completionMethod: z.enum(['automatic', 'manual']).default('automatic'),
       requiredActions: z.array(z.object({
-        type: z.string(),
+        type: z.enum(['acessar_plataforma', 'completar_treinamento', 'interagir_feed', 'dar_feedback',
+          'responder_pesquisa', 'participar_evento', 'acessar_consecutivo', 'resgatar_recompensa',
+          'registrar_humor', 'criar_post', 'comentar_post', 'reagir_post']),
         target: z.number().int().optional(),
         description: z.string().optional(),
         order: z.number().int().default(0),
@@ -112,7 +160,6 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
         requiredActions: {
           create: requiredActions.map((a, idx) => ({
             ...a,
-            type: a.type as any,
             order: a.order || idx,
           })),
         },
@@ -121,20 +168,15 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
     })
 
     // Auto-enroll eligible users
-    if (eng.publicoAlvoType === 'todo_time') {
-      const users = await prisma.user.findMany({
-        where: { role: 'colaborador', isActive: true },
-        select: { id: true },
-      })
-      await prisma.engajamentoParticipant.createMany({
-        data: users.map(u => ({
-          engajamentoId: eng.id,
-          userId: u.id,
-          status: 'not_started' as const,
-        })),
-        skipDuplicates: true,
-      })
-    }
+    const users = await resolveAudienceUsers({ type: eng.publicoAlvoType, targetIds: eng.targetIds })
+    await prisma.engajamentoParticipant.createMany({
+      data: users.map(u => ({
+        engajamentoId: eng.id,
+        userId: u.id,
+        status: 'not_started' as const,
+      })),
+      skipDuplicates: true,
+    })
 
     return reply.code(201).send({ data: eng })
   })
@@ -148,6 +190,8 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
 
     const eng = await prisma.engajamento.findUnique({ where: { id } })
     if (!eng || !eng.isActive) throw new NotFoundError('Engagement', id)
+    assertWithinWindow(eng)
+    await assertEngagementAudience(eng, request.user.id)
 
     const existing = await prisma.engajamentoParticipant.findUnique({
       where: { engajamentoId_userId: { engajamentoId: id, userId: request.user.id } },
@@ -158,6 +202,9 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
       if (existing.status === 'completed') {
         return reply.send({ data: existing, message: 'Already completed' })
       }
+      if (existing.status === 'failed') {
+        throw new ForbiddenError(`Engagement failed: ${existing.failReason ?? 'no reason given'}`)
+      }
     }
 
     const participant = await prisma.engajamentoParticipant.upsert({
@@ -177,10 +224,12 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
     return reply.code(201).send({ data: participant })
   })
 
-  // POST /engagements/:id/action-complete - complete an action
+  // POST /engagements/:id/action-complete - manually complete an action
+  // Only for engagements with completionMethod "manual"; automatic ones are
+  // evaluated by the gamification worker from real platform activity.
   fastify.post('/:id/action-complete', {
     preHandler: [authenticate],
-    schema: { tags: ['Engagements'], summary: 'Complete an engagement action' },
+    schema: { tags: ['Engagements'], summary: 'Complete an engagement action (manual engagements only)' },
   }, async (request, reply) => {
     const { id } = z.object({ id: z.string() }).parse(request.params)
     const { actionId } = z.object({ actionId: z.string() }).parse(request.body)
@@ -190,40 +239,41 @@ export async function engagementsRoutes(fastify: FastifyInstance): Promise<void>
       include: { requiredActions: true },
     })
     if (!eng) throw new NotFoundError('Engagement', id)
+    assertWithinWindow(eng)
 
-    const participant = await prisma.engajamentoParticipant.findUnique({
-      where: { engajamentoId_userId: { engajamentoId: id, userId: request.user.id } },
-    })
-    if (!participant || participant.status === 'completed') {
-      throw new ForbiddenError('Not participating or already completed')
+    if (eng.completionMethod !== 'manual') {
+      throw new ForbiddenError('Actions of this engagement are completed automatically')
     }
 
-    const completedActions = [...new Set([...participant.completedActions, actionId])]
-    const progress = Math.round((completedActions.length / eng.requiredActions.length) * 100)
-    const isCompleted = progress === 100
+    if (!eng.requiredActions.some(a => a.id === actionId)) {
+      throw new NotFoundError('EngagementAction', actionId)
+    }
 
-    const updated = await prisma.engajamentoParticipant.update({
-      where: { id: participant.id },
-      data: {
-        completedActions,
-        progressPercentage: progress,
-        status: isCompleted ? 'completed' : 'in_progress',
-        completedAt: isCompleted ? new Date() : null,
-      },
-    })
+    // Appended against the actions it was read with; a concurrent completion re-reads
+    for (let attempt = 0; attempt < MAX_ACTION_COMPLETE_ATTEMPTS; attempt++) {
+      const participant = await prisma.engajamentoParticipant.findUnique({
+        where: { engajamentoId_userId: { engajamentoId: id, userId: request.user.id } },
+      })
+      if (!participant || participant.status !== 'in_progress') {
+        throw new ForbiddenError('Not participating or already completed')
+      }
 
-    if (isCompleted) {
-      await awardXpUseCase({
+      const completedActions = [...new Set([...participant.completedActions, actionId])]
+      const progress = Math.round((completedActions.length / eng.requiredActions.length) * 100)
+
+      const { participant: updated, completed, applied } = await applyParticipantProgress({
+        participantId: participant.id,
         userId: request.user.id,
         userRole: request.user.role,
-        action: 'completar_engajamento',
-        xp: eng.rewardXP,
-        stars: eng.rewardStars,
-        context: { engajamentoId: id },
+        engajamento: eng,
+        completedActions,
+        progressPercentage: progress,
+        previousActions: participant.completedActions,
       })
+      if (applied) return reply.send({ data: updated, completed })
     }
 
-    return reply.send({ data: updated, completed: isCompleted })
+    throw new ConflictError('Engagement progress changed concurrently; try again')
   })
 
   // GET /engagements/:id/participants (gestor+)
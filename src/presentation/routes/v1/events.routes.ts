@@ -3,7 +3,8 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase, XP_REWARDS, STAR_REWARDS } from '../../../application/gamification/award-xp.usecase.js'
+import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import { getActionReward } from '../../../application/gamification/reward-rules.usecase.js'
 import { NotFoundError, ConflictError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
 
@@ -164,12 +165,14 @@ export async function eventsRoutes(fastify: FastifyInstance): Promise<void> {
       },
     })
 
+    const reward = await getActionReward('participar_evento')
     await awardXpUseCase({
       userId: request.user.id,
       userRole: request.user.role,
       action: 'participar_evento',
-      xp: event.rewardXP || XP_REWARDS.participar_evento,
-      stars: STAR_REWARDS.participar_evento,
+      xp: event.rewardXP || reward.xp,
+      stars: reward.stars,
+      source: { type: 'evento', id },
       context: { eventId: id },
     })
 
@@ -1,46 +1,143 @@
 import type { FastifyInstance } from 'fastify'
+import { Prisma, type UserRole } from '@prisma/client'
 import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
+import { deleteObject } from '../../../infrastructure/storage/r2.client.js'
+import { env } from '../../../config/env.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase, XP_REWARDS, STAR_REWARDS } from '../../../application/gamification/award-xp.usecase.js'
-import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
+import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import { getActionReward } from '../../../application/gamification/reward-rules.usecase.js'
+import { NotFoundError, ForbiddenError, ValidationError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import { attachMentions, syncMentionsUseCase } from '../../../application/mentions/mentions.usecase.js'
+import {
+  MAX_ATTACHMENTS_PER_POST,
+  linkPostAttachments,
+  requestAttachmentUploadUseCase,
+  resolvePostAttachments,
+  withAttachmentUrls,
+} from '../../../application/feed/feed-attachments.usecase.js'
+import { extractFirstUrl, fetchLinkPreview } from '../../../application/feed/link-preview.usecase.js'
+import { listFeedPostIdsUseCase } from '../../../application/feed/feed-ranking.usecase.js'
+import {
+  moderateContentUseCase,
+  reportContentUseCase,
+  screenContentUseCase,
+} from '../../../application/moderation/moderation.usecase.js'
 
 const postSelect = {
   id: true,
   content: true,
   imageUrl: true,
+  linkPreview: true,
   isPinned: true,
+  editedAt: true,
+  hiddenAt: true,
+  hiddenReason: true,
   createdAt: true,
   updatedAt: true,
   user: { select: { id: true, nome: true, cargo: true, departamento: true, avatar: true, role: true } },
+  attachments: {
+    orderBy: { position: 'asc' as const },
+    select: { id: true, kind: true, contentType: true, filename: true, size: true, position: true, key: true },
+  },
   _count: { select: { reactions: true, comments: true } },
 }
 
+const commentSelect = {
+  id: true,
+  parentId: true,
+  content: true,
+  editedAt: true,
+  hiddenAt: true,
+  deletedAt: true,
+  createdAt: true,
+  user: { select: { id: true, nome: true, avatar: true, cargo: true } },
+}
+
+const ReactionTypeSchema = z.enum(['like', 'love', 'celebrate', 'support', 'insightful'])
+
+const ReportSchema = z.object({
+  reason: z.enum(['spam', 'ofensivo', 'assedio', 'desinformacao', 'inapropriado', 'outro']),
+  details: z.string().max(500).optional(),
+})
+
+// Replies shown inline under each top-level comment; the rest via /replies
+const INLINE_REPLIES = 3
+
+// Mentions plus signed attachment URLs for posts read with postSelect
+async function presentPosts<T extends { id: string; attachments: { key: string }[] }>(posts: T[]) {
+  return withAttachmentUrls(await attachMentions('feed_post', posts))
+}
+
+// Hidden posts and comments stay visible to their author and moderators only
+function canViewHidden(content: { hiddenAt: Date | null; userId: string }, viewer: { id: string; role: UserRole }): boolean {
+  return !content.hiddenAt || content.userId === viewer.id || viewer.role !== 'colaborador'
+}
+
+type CommentRow = { id: string; content: string; hiddenAt: Date | null; deletedAt: Date | null; [key: string]: unknown }
+
+// Attach mentions, per-type reaction counts and the caller's reactions; deleted or hidden comments kept for their replies lose their content
+async function enrichComments<T extends CommentRow>(comments: T[], userId: string) {
+  const ids = comments.map(c => c.id)
+  const [withMentions, counts, mine] = await Promise.all([
+    attachMentions('feed_comment', comments),
+    prisma.feedCommentReaction.groupBy({
+      by: ['commentId', 'type'],
+      where: { commentId: { in: ids } },
+      _count: { _all: true },
+    }),
+    prisma.feedCommentReaction.findMany({
+      where: { commentId: { in: ids }, userId },
+      select: { commentId: true, type: true },
+    }),
+  ])
+
+  return withMentions.map(c => ({
+    ...c,
+    content: c.deletedAt || c.hiddenAt ? null : c.content,
+    mentions: c.deletedAt || c.hiddenAt ? [] : c.mentions,
+    deleted: c.deletedAt !== null,
+    hidden: c.hiddenAt !== null,
+    reactions: Object.fromEntries(counts.filter(r => r.commentId === c.id).map(r => [r.type, r._count._all])),
+    userReactions: mine.filter(r => r.commentId === c.id).map(r => r.type),
+  }))
+}
+
 export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
-  // GET /feed - list posts
+  // GET /feed - list posts (cursor pagination; order=recent|relevance)
   fastify.get('/', {
     preHandler: [authenticate],
     schema: { tags: ['Feed'], summary: 'List feed posts' },
   }, async (request, reply) => {
+    const QueryFlag = z.enum(['true', 'false']).transform(v => v === 'true').optional()
     const query = z.object({
-      page: z.coerce.number().optional(),
-      limit: z.coerce.number().optional(),
+      cursor: z.string().optional(),
+      limit: z.coerce.number().min(1).max(100).default(20),
+      order: z.enum(['recent', 'relevance']).default('recent'),
+      departamento: z.string().optional(),
+      team: QueryFlag,
+      authorId: z.string().optional(),
+      reacted: QueryFlag,
     }).parse(request.query)
 
-    const { skip, take, page, limit } = getPaginationParams(query)
+    const { ids, nextCursor } = await listFeedPostIdsUseCase({
+      viewerId: request.user.id,
+      filters: {
+        departamento: query.departamento,
+        team: query.team,
+        authorId: query.authorId,
+        reacted: query.reacted,
+      },
+      order: query.order,
+      cursor: query.cursor,
+      limit: query.limit,
+    })
 
-    const [posts, total] = await Promise.all([
-      prisma.feedPost.findMany({
-        where: { deletedAt: null },
-        skip,
-        take,
-        orderBy: [{ isPinned: 'desc' }, { createdAt: 'desc' }],
-        select: postSelect,
-      }),
-      prisma.feedPost.count({ where: { deletedAt: null } }),
-    ])
+    const found = await prisma.feedPost.findMany({ where: { id: { in: ids } }, select: postSelect })
+    const byId = new Map(found.map(p => [p.id, p]))
+    const posts = ids.flatMap(id => (byId.has(id) ? [byId.get(id)!] : []))
 
     // Add user's reaction for each post
     const postIds = posts.map(p => p.id)
@@ -49,12 +146,15 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
     })
     const reactionMap = new Map(userReactions.map(r => [r.postId, r.type]))
 
-    const postsWithReactions = posts.map(p => ({
+    const postsWithReactions = (await presentPosts(posts)).map(p => ({
       ...p,
       userReaction: reactionMap.get(p.id) ?? null,
     }))
 
-    return reply.send({ data: postsWithReactions, meta: buildPaginationMeta(total, page, limit) })
+    return reply.send({
+      data: postsWithReactions,
+      meta: { limit: query.limit, order: query.order, nextCursor, hasNextPage: nextCursor !== null },
+    })
   })
 
   // POST /feed - create post
@@ -65,22 +165,67 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
     const body = z.object({
       content: z.string().min(1).max(2000),
       imageUrl: z.string().url().optional(),
+      attachmentIds: z.array(z.string()).max(MAX_ATTACHMENTS_PER_POST).default([]),
     }).parse(request.body)
 
-    const post = await prisma.feedPost.create({
-      data: { userId: request.user.id, ...body },
-      select: postSelect,
+    const { attachmentIds, ...data } = body
+    const { hidden } = await screenContentUseCase(body.content)
+    const attachments = await resolvePostAttachments({ userId: request.user.id, attachmentIds })
+
+    const url = extractFirstUrl(body.content)
+    const linkPreview = url ? await fetchLinkPreview(url) : null
+
+    const post = await prisma.$transaction(async (tx) => {
+      const created = await tx.feedPost.create({
+        data: {
+          userId: request.user.id,
+          ...data,
+          linkPreview: linkPreview ?? undefined,
+          ...(hidden ? { hiddenAt: new Date(), hiddenReason: 'palavras_proibidas' as const } : {}),
+        },
+        select: { id: true },
+      })
+      await linkPostAttachments(tx, created.id, attachments)
+      return tx.feedPost.findUniqueOrThrow({ where: { id: created.id }, select: postSelect })
     })
 
+    const reward = await getActionReward('criar_post')
     await awardXpUseCase({
       userId: request.user.id,
       userRole: request.user.role,
       action: 'criar_post',
-      xp: XP_REWARDS.criar_post,
-      stars: STAR_REWARDS.criar_post,
+      xp: reward.xp,
+      stars: reward.stars,
+      source: { type: 'feed_post', id: post.id },
     })
 
-    return reply.code(201).send({ data: post })
+    await syncMentionsUseCase({
+      sourceType: 'feed_post',
+      sourceId: post.id,
+      authorId: request.user.id,
+      content: body.content,
+      // Held back while the post awaits moderation
+      notify: !hidden,
+      data: { postId: post.id },
+    })
+
+    const [created] = await presentPosts([post])
+    return reply.code(201).send({ data: created })
+  })
+
+  // POST /feed/attachments - presigned URL to upload an attachment, then pass its id to POST/PUT /feed
+  fastify.post('/attachments', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'Request an attachment upload URL' },
+  }, async (request, reply) => {
+    const body = z.object({
+      filename: z.string().min(1).max(255),
+      contentType: z.string().min(1),
+      size: z.number().int().min(1),
+    }).parse(request.body)
+
+    const result = await requestAttachmentUploadUseCase({ userId: request.user.id, ...body })
+    return reply.code(201).send({ data: result })
   })
 
   // GET /feed/:id - get single post
@@ -94,10 +239,10 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
       select: {
         ...postSelect,
         comments: {
-          where: { deletedAt: null },
+          where: { deletedAt: null, hiddenAt: null },
           orderBy: { createdAt: 'asc' },
           select: {
-            id: true, content: true, createdAt: true,
+            id: true, parentId: true, content: true, editedAt: true, createdAt: true,
             user: { select: { id: true, nome: true, avatar: true, cargo: true } },
           },
         },
@@ -106,8 +251,86 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
         },
       },
     })
+    if (!post || !canViewHidden({ hiddenAt: post.hiddenAt, userId: post.user.id }, request.user)) {
+      throw new NotFoundError('Post', id)
+    }
+
+    const [presented] = await presentPosts([post])
+    return reply.send({ data: { ...presented, comments: await attachMentions('feed_comment', post.comments) } })
+  })
+
+  // PUT /feed/:id - author edits content and attachments within FEED_EDIT_WINDOW_MINUTES of posting
+  fastify.put('/:id', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'Edit a post' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const body = z.object({
+      content: z.string().min(1).max(2000).optional(),
+      attachmentIds: z.array(z.string()).max(MAX_ATTACHMENTS_PER_POST).optional(),
+    }).parse(request.body)
+
+    const post = await prisma.feedPost.findFirst({
+      where: { id, deletedAt: null },
+      include: { attachments: { select: { id: true, key: true } } },
+    })
     if (!post) throw new NotFoundError('Post', id)
-    return reply.send({ data: post })
+    if (post.userId !== request.user.id) throw new ForbiddenError('Cannot edit another user\'s post')
+
+    const windowMs = env.FEED_EDIT_WINDOW_MINUTES * 60 * 1000
+    if (Date.now() - post.createdAt.getTime() > windowMs) {
+      throw new ForbiddenError(`Posts can only be edited within ${env.FEED_EDIT_WINDOW_MINUTES} minutes of posting`)
+    }
+
+    const attachments = body.attachmentIds
+      ? await resolvePostAttachments({ userId: request.user.id, attachmentIds: body.attachmentIds, postId: id })
+      : null
+    const removed = attachments ? post.attachments.filter(a => !attachments.some(n => n.id === a.id)) : []
+
+    // The preview is refreshed only when the first link changes
+    const content = body.content ?? post.content
+    const contentChanged = body.content !== undefined && body.content !== post.content
+    const { hidden } = contentChanged ? await screenContentUseCase(content) : { hidden: false }
+    const url = extractFirstUrl(content)
+    const previewChanged = url !== extractFirstUrl(post.content)
+    const linkPreview = previewChanged && url ? await fetchLinkPreview(url) : null
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (attachments) {
+        await tx.feedAttachment.deleteMany({ where: { id: { in: removed.map(a => a.id) } } })
+        await linkPostAttachments(tx, id, attachments)
+      }
+      return tx.feedPost.update({
+        where: { id },
+        data: {
+          content,
+          editedAt: new Date(),
+          ...(previewChanged ? { linkPreview: linkPreview ?? Prisma.DbNull } : {}),
+          ...(hidden && !post.hiddenAt ? { hiddenAt: new Date(), hiddenReason: 'palavras_proibidas' as const } : {}),
+        },
+        select: postSelect,
+      })
+    })
+
+    for (const attachment of removed) {
+      await deleteObject(attachment.key).catch((err: Error) => {
+        console.warn(`[Feed] Failed to delete attachment object ${attachment.key}:`, err.message)
+      })
+    }
+
+    if (contentChanged) {
+      await syncMentionsUseCase({
+        sourceType: 'feed_post',
+        sourceId: id,
+        authorId: request.user.id,
+        content,
+        notify: !hidden && !post.hiddenAt,
+        data: { postId: id },
+      })
+    }
+
+    const [data] = await presentPosts([updated])
+    return reply.send({ data })
   })
 
   // DELETE /feed/:id - soft delete
@@ -124,7 +347,12 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
       throw new ForbiddenError('Cannot delete another user\'s post')
     }
 
-    await prisma.feedPost.update({ where: { id }, data: { deletedAt: new Date() } })
+    // Removing someone else's post is a moderation action
+    if (post.userId !== request.user.id) {
+      await moderateContentUseCase({ action: 'delete', targetType: 'feed_post', targetId: id, actorId: request.user.id, actorRole: request.user.role })
+    } else {
+      await prisma.feedPost.update({ where: { id }, data: { deletedAt: new Date() } })
+    }
     return reply.code(204).send()
   })
 
@@ -134,11 +362,9 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
     schema: { tags: ['Feed'], summary: 'React to a post' },
   }, async (request, reply) => {
     const { id } = z.object({ id: z.string() }).parse(request.params)
-    const { type } = z.object({
-      type: z.enum(['like', 'love', 'celebrate', 'support', 'insightful']),
-    }).parse(request.body)
+    const { type } = z.object({ type: ReactionTypeSchema }).parse(request.body)
 
-    const post = await prisma.feedPost.findFirst({ where: { id, deletedAt: null } })
+    const post = await prisma.feedPost.findFirst({ where: { id, deletedAt: null, hiddenAt: null } })
     if (!post) throw new NotFoundError('Post', id)
 
     // Toggle: if same reaction exists, remove it
@@ -155,43 +381,272 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
       data: { postId: id, userId: request.user.id, type },
     })
 
+    const reward = await getActionReward('reagir_post')
     await awardXpUseCase({
       userId: request.user.id,
       userRole: request.user.role,
       action: 'reagir_post',
-      xp: XP_REWARDS.reagir_post,
+      xp: reward.xp,
+      stars: reward.stars,
+      source: { type: 'feed_post', id },
     })
 
     return reply.code(201).send({ data: { reacted: true, type } })
   })
 
-  // POST /feed/:id/comments - add comment
+  // GET /feed/:id/comments - top-level comments (oldest first) with their first replies
+  fastify.get('/:id/comments', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'List comments of a post' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+    }).parse(request.query)
+
+    const post = await prisma.feedPost.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true, userId: true, hiddenAt: true },
+    })
+    if (!post || !canViewHidden(post, request.user)) throw new NotFoundError('Post', id)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    // Deleted comments stay in the thread while they still have visible replies
+    const where = {
+      postId: id,
+      parentId: null,
+      OR: [{ deletedAt: null, hiddenAt: null }, { replies: { some: { deletedAt: null, hiddenAt: null } } }],
+    }
+
+    const [comments, total] = await Promise.all([
+      prisma.feedComment.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'asc' },
+        select: {
+          ...commentSelect,
+          replies: {
+            where: { deletedAt: null, hiddenAt: null },
+            orderBy: { createdAt: 'asc' },
+            take: INLINE_REPLIES,
+            select: commentSelect,
+          },
+          _count: { select: { replies: { where: { deletedAt: null, hiddenAt: null } } } },
+        },
+      }),
+      prisma.feedComment.count({ where }),
+    ])
+
+    const enriched = await enrichComments(
+      [...comments, ...comments.flatMap(c => c.replies)],
+      request.user.id,
+    )
+    const byId = new Map(enriched.map(c => [c.id, c]))
+
+    const data = comments.map(({ replies, _count, ...comment }) => ({
+      ...byId.get(comment.id),
+      replyCount: _count.replies,
+      replies: replies.map(r => byId.get(r.id)),
+    }))
+
+    return reply.send({ data, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /feed/:postId/comments/:commentId/replies
+  fastify.get('/:postId/comments/:commentId/replies', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'List replies to a comment' },
+  }, async (request, reply) => {
+    const { postId, commentId } = z.object({ postId: z.string(), commentId: z.string() }).parse(request.params)
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+    }).parse(request.query)
+
+    const parent = await prisma.feedComment.findFirst({
+      where: { id: commentId, postId, parentId: null, post: { deletedAt: null } },
+      select: { id: true, post: { select: { userId: true, hiddenAt: true } } },
+    })
+    if (!parent || !canViewHidden(parent.post, request.user)) throw new NotFoundError('Comment', commentId)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where = { parentId: commentId, deletedAt: null, hiddenAt: null }
+
+    const [replies, total] = await Promise.all([
+      prisma.feedComment.findMany({ where, skip, take, orderBy: { createdAt: 'asc' }, select: commentSelect }),
+      prisma.feedComment.count({ where }),
+    ])
+
+    return reply.send({
+      data: await enrichComments(replies, request.user.id),
+      meta: buildPaginationMeta(total, page, limit),
+    })
+  })
+
+  // POST /feed/:id/comments - add comment (parentId to reply; replies to a reply join the top-level thread)
   fastify.post('/:id/comments', {
     preHandler: [authenticate],
     schema: { tags: ['Feed'], summary: 'Add comment to post' },
   }, async (request, reply) => {
     const { id } = z.object({ id: z.string() }).parse(request.params)
-    const { content } = z.object({ content: z.string().min(1).max(1000) }).parse(request.body)
+    const { content, parentId } = z.object({
+      content: z.string().min(1).max(1000),
+      parentId: z.string().optional(),
+    }).parse(request.body)
 
-    const post = await prisma.feedPost.findFirst({ where: { id, deletedAt: null } })
+    const post = await prisma.feedPost.findFirst({ where: { id, deletedAt: null, hiddenAt: null } })
     if (!post) throw new NotFoundError('Post', id)
+    const { hidden } = await screenContentUseCase(content)
+
+    let threadId: string | null = null
+    if (parentId) {
+      const parent = await prisma.feedComment.findFirst({
+        where: { id: parentId, deletedAt: null, hiddenAt: null },
+        select: { postId: true, parentId: true },
+      })
+      if (!parent) throw new NotFoundError('Comment', parentId)
+      if (parent.postId !== id) throw new ValidationError('Parent comment belongs to another post')
+      threadId = parent.parentId ?? parentId
+    }
 
     const comment = await prisma.feedComment.create({
-      data: { postId: id, userId: request.user.id, content },
+      data: {
+        postId: id,
+        userId: request.user.id,
+        content,
+        parentId: threadId,
+        ...(hidden ? { hiddenAt: new Date(), hiddenReason: 'palavras_proibidas' as const } : {}),
+      },
       select: {
-        id: true, content: true, createdAt: true,
+        id: true, parentId: true, content: true, createdAt: true,
         user: { select: { id: true, nome: true, avatar: true, cargo: true } },
       },
     })
 
+    const reward = await getActionReward('comentar_post')
     await awardXpUseCase({
       userId: request.user.id,
       userRole: request.user.role,
       action: 'comentar_post',
-      xp: XP_REWARDS.comentar_post,
+      xp: reward.xp,
+      stars: reward.stars,
+      source: { type: 'feed_comment', id: comment.id },
     })
 
-    return reply.code(201).send({ data: comment })
+    await syncMentionsUseCase({
+      sourceType: 'feed_comment',
+      sourceId: comment.id,
+      authorId: request.user.id,
+      content,
+      notify: !hidden,
+      data: { postId: id, commentId: comment.id },
+    })
+
+    const [data] = await attachMentions('feed_comment', [comment])
+    return reply.code(201).send({ data })
+  })
+
+  // PUT /feed/:postId/comments/:commentId - edit own comment, keeping the previous content
+  fastify.put('/:postId/comments/:commentId', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'Edit comment' },
+  }, async (request, reply) => {
+    const { postId, commentId } = z.object({ postId: z.string(), commentId: z.string() }).parse(request.params)
+    const { content } = z.object({ content: z.string().min(1).max(1000) }).parse(request.body)
+
+    const comment = await prisma.feedComment.findFirst({
+      where: { id: commentId, postId, deletedAt: null, post: { deletedAt: null } },
+    })
+    if (!comment) throw new NotFoundError('Comment', commentId)
+    if (comment.userId !== request.user.id) throw new ForbiddenError('Cannot edit another user\'s comment')
+
+    // Saving the same content is not an edit
+    const contentChanged = comment.content !== content
+    const { hidden } = contentChanged ? await screenContentUseCase(content) : { hidden: false }
+    const updated = !contentChanged
+      ? await prisma.feedComment.findUniqueOrThrow({ where: { id: commentId }, select: commentSelect })
+      : await prisma.$transaction(async (tx) => {
+        await tx.feedCommentEdit.create({ data: { commentId, previousContent: comment.content } })
+        return tx.feedComment.update({
+          where: { id: commentId },
+          data: {
+            content,
+            editedAt: new Date(),
+            ...(hidden && !comment.hiddenAt ? { hiddenAt: new Date(), hiddenReason: 'palavras_proibidas' as const } : {}),
+          },
+          select: commentSelect,
+        })
+      })
+
+    // Only users newly mentioned by the edit are notified
+    await syncMentionsUseCase({
+      sourceType: 'feed_comment',
+      sourceId: commentId,
+      authorId: request.user.id,
+      content,
+      notify: !hidden && !comment.hiddenAt,
+      data: { postId, commentId },
+    })
+
+    const [data] = await enrichComments([updated], request.user.id)
+    return reply.send({ data })
+  })
+
+  // GET /feed/:postId/comments/:commentId/edits - edit history, newest first
+  fastify.get('/:postId/comments/:commentId/edits', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'Comment edit history' },
+  }, async (request, reply) => {
+    const { postId, commentId } = z.object({ postId: z.string(), commentId: z.string() }).parse(request.params)
+
+    const comment = await prisma.feedComment.findFirst({
+      where: { id: commentId, postId, deletedAt: null, post: { deletedAt: null } },
+      select: { id: true, userId: true, hiddenAt: true, post: { select: { userId: true, hiddenAt: true } } },
+    })
+    if (!comment || !canViewHidden(comment.post, request.user) || !canViewHidden(comment, request.user)) {
+      throw new NotFoundError('Comment', commentId)
+    }
+
+    const edits = await prisma.feedCommentEdit.findMany({
+      where: { commentId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, previousContent: true, createdAt: true },
+    })
+
+    return reply.send({ data: edits })
+  })
+
+  // POST /feed/:postId/comments/:commentId/react - toggle a reaction on a comment
+  fastify.post('/:postId/comments/:commentId/react', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'React to a comment' },
+  }, async (request, reply) => {
+    const { postId, commentId } = z.object({ postId: z.string(), commentId: z.string() }).parse(request.params)
+    const { type } = z.object({ type: ReactionTypeSchema }).parse(request.body)
+
+    const comment = await prisma.feedComment.findFirst({
+      where: { id: commentId, postId, deletedAt: null, hiddenAt: null, post: { deletedAt: null, hiddenAt: null } },
+      select: { id: true },
+    })
+    if (!comment) throw new NotFoundError('Comment', commentId)
+
+    // Toggle: if same reaction exists, remove it
+    const existing = await prisma.feedCommentReaction.findUnique({
+      where: { commentId_userId_type: { commentId, userId: request.user.id, type } },
+    })
+
+    if (existing) {
+      await prisma.feedCommentReaction.delete({ where: { id: existing.id } })
+      return reply.send({ data: { reacted: false, type } })
+    }
+
+    await prisma.feedCommentReaction.create({
+      data: { commentId, userId: request.user.id, type },
+    })
+
+    return reply.code(201).send({ data: { reacted: true, type } })
   })
 
   // DELETE /feed/:postId/comments/:commentId
@@ -210,10 +665,54 @@ export async function feedRoutes(fastify: FastifyInstance): Promise<void> {
       throw new ForbiddenError('Cannot delete another user\'s comment')
     }
 
-    await prisma.feedComment.update({ where: { id: commentId }, data: { deletedAt: new Date() } })
+    if (comment.userId !== request.user.id) {
+      await moderateContentUseCase({ action: 'delete', targetType: 'feed_comment', targetId: commentId, actorId: request.user.id, actorRole: request.user.role })
+    } else {
+      await prisma.feedComment.update({ where: { id: commentId }, data: { deletedAt: new Date() } })
+    }
     return reply.code(204).send()
   })
 
+  // POST /feed/:id/report - report a post to the moderators
+  fastify.post('/:id/report', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'Report post' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const body = ReportSchema.parse(request.body)
+
+    const result = await reportContentUseCase({
+      reporterId: request.user.id,
+      targetType: 'feed_post',
+      targetId: id,
+      ...body,
+    })
+    return reply.code(201).send({ data: result })
+  })
+
+  // POST /feed/:postId/comments/:commentId/report - report a comment to the moderators
+  fastify.post('/:postId/comments/:commentId/report', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feed'], summary: 'Report comment' },
+  }, async (request, reply) => {
+    const { postId, commentId } = z.object({ postId: z.string(), commentId: z.string() }).parse(request.params)
+    const body = ReportSchema.parse(request.body)
+
+    const comment = await prisma.feedComment.findFirst({
+      where: { id: commentId, postId, deletedAt: null, post: { deletedAt: null } },
+      select: { id: true },
+    })
+    if (!comment) throw new NotFoundError('Comment', commentId)
+
+    const result = await reportContentUseCase({
+      reporterId: request.user.id,
+      targetType: 'feed_comment',
+      targetId: commentId,
+      ...body,
+    })
+    return reply.code(201).send({ data: result })
+  })
+
   // PATCH /feed/:id/pin - pin post (gestor+)
   fastify.patch('/:id/pin', {
     preHandler: [authenticate, authorize(['gestor'])],
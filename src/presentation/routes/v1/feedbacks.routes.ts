@@ -3,9 +3,22 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase, XP_REWARDS, STAR_REWARDS } from '../../../application/gamification/award-xp.usecase.js'
-import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
+import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import { getActionReward } from '../../../application/gamification/reward-rules.usecase.js'
+import {
+  getStarGiftSettings,
+  getStarGiftAllowanceUseCase,
+  giftStarsUseCase,
+} from '../../../application/feedbacks/gift-stars.usecase.js'
+import { reviewFeedbackUseCase } from '../../../application/feedbacks/review-feedback.usecase.js'
+import {
+  attachMentions,
+  notifyPendingMentionsUseCase,
+  syncMentionsUseCase,
+} from '../../../application/mentions/mentions.usecase.js'
+import { NotFoundError, ForbiddenError, ValidationError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import { resolveTimeZone } from '../../../shared/utils/date.js'
 
 export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
   // GET /feedbacks - list feedbacks
@@ -58,10 +71,13 @@ export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
       fromUser: f.isAnonymous && !isAdmin && f.toUserId === userId ? null : f.fromUser,
     }))
 
-    return reply.send({ data: sanitized, meta: buildPaginationMeta(total, page, limit) })
+    return reply.send({
+      data: await attachMentions('feedback', sanitized),
+      meta: buildPaginationMeta(total, page, limit),
+    })
   })
 
-  // POST /feedbacks - send feedback
+  // POST /feedbacks - send feedback, optionally gifting stars with a recognition
   fastify.post('/', {
     preHandler: [authenticate],
     schema: { tags: ['Feedbacks'], summary: 'Send feedback' },
@@ -72,6 +88,7 @@ export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
       content: z.string().min(10).max(2000),
       isPublic: z.boolean().default(false),
       isAnonymous: z.boolean().default(false),
+      stars: z.number().int().min(1).optional(),
     }).parse(request.body)
 
     if (body.toUserId === request.user.id) {
@@ -90,27 +107,120 @@ export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
     }
 
     const requireApproval = settings?.requireApproval ?? true
+    const { stars, ...data } = body
+
+    let feedback
+    if (stars) {
+      if (data.type !== 'reconhecimento' && data.type !== 'agradecimento') {
+        throw new ValidationError('Stars can only be gifted with reconhecimento or agradecimento feedbacks')
+      }
+      if (data.isAnonymous) throw new ValidationError('Star gifts cannot be anonymous')
 
-    const feedback = await prisma.feedback.create({
-      data: {
+      const result = await giftStarsUseCase({
         fromUserId: request.user.id,
-        ...body,
-        status: requireApproval ? 'pendente' : 'aprovado',
-      },
-      include: {
-        toUser: { select: { id: true, nome: true, cargo: true } },
-      },
-    })
+        fromRole: request.user.role,
+        toUserId: data.toUserId,
+        amount: stars,
+        timeZone: resolveTimeZone(request.user.timezone),
+        feedback: {
+          type: data.type,
+          content: data.content,
+          isPublic: data.isPublic,
+          status: requireApproval ? 'pendente' : 'aprovado',
+        },
+      })
+      feedback = { ...result.feedback, starGift: result.gift }
+    } else {
+      feedback = await prisma.feedback.create({
+        data: {
+          fromUserId: request.user.id,
+          ...data,
+          status: requireApproval ? 'pendente' : 'aprovado',
+        },
+        include: {
+          toUser: { select: { id: true, nome: true, cargo: true } },
+        },
+      })
+    }
 
+    const reward = await getActionReward('dar_feedback')
     await awardXpUseCase({
       userId: request.user.id,
       userRole: request.user.role,
       action: 'dar_feedback',
-      xp: XP_REWARDS.dar_feedback,
-      stars: STAR_REWARDS.dar_feedback,
+      xp: reward.xp,
+      stars: reward.stars,
+      source: { type: 'feedback', id: feedback.id },
     })
 
-    return reply.code(201).send({ data: feedback })
+    // Only public feedbacks carry mentions; those awaiting approval notify once approved
+    if (data.isPublic) {
+      await syncMentionsUseCase({
+        sourceType: 'feedback',
+        sourceId: feedback.id,
+        authorId: request.user.id,
+        content: data.content,
+        notify: feedback.status === 'aprovado',
+        anonymous: data.isAnonymous,
+        data: { feedbackId: feedback.id },
+      })
+    }
+
+    const [withMentions] = await attachMentions('feedback', [feedback])
+    return reply.code(201).send({ data: withMentions })
+  })
+
+  // GET /feedbacks/gifts - star gifts sent or received by me
+  fastify.get('/gifts', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feedbacks'], summary: 'List my star gifts' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      type: z.enum(['sent', 'received']).optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const userId = request.user.id
+    const where: any = {}
+    if (query.type === 'sent') where.fromUserId = userId
+    else if (query.type === 'received') where.toUserId = userId
+    else where.OR = [{ fromUserId: userId }, { toUserId: userId }]
+
+    const [gifts, total] = await Promise.all([
+      prisma.starGift.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          fromUser: { select: { id: true, nome: true, cargo: true, avatar: true } },
+          toUser: { select: { id: true, nome: true, cargo: true, avatar: true } },
+          feedback: { select: { id: true, type: true, content: true, status: true } },
+        },
+      }),
+      prisma.starGift.count({ where }),
+    ])
+
+    // Until a manager approves it, the feedback text is only visible to its author
+    const visible = gifts.map(g => ({
+      ...g,
+      feedback: g.feedback.status === 'aprovado' || g.fromUserId === userId
+        ? g.feedback
+        : { ...g.feedback, content: null },
+    }))
+
+    return reply.send({ data: visible, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /feedbacks/gifts/allowance - stars I can still gift today
+  fastify.get('/gifts/allowance', {
+    preHandler: [authenticate],
+    schema: { tags: ['Feedbacks'], summary: 'Get my remaining star gifting allowance' },
+  }, async (request, reply) => {
+    const allowance = await getStarGiftAllowanceUseCase(request.user.id, resolveTimeZone(request.user.timezone))
+    return reply.send({ data: allowance })
   })
 
   // GET /feedbacks/:id
@@ -145,15 +255,29 @@ export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
     const { id } = z.object({ id: z.string() }).parse(request.params)
     const { note } = z.object({ note: z.string().optional() }).parse(request.body ?? {})
 
-    const feedback = await prisma.feedback.update({
-      where: { id },
-      data: {
-        status: 'aprovado',
-        reviewedBy: request.user.id,
-        reviewedAt: new Date(),
-        reviewNote: note,
-      },
-    })
+    // Held gift stars go to the recipient
+    const feedback = await reviewFeedbackUseCase({ feedbackId: id, outcome: 'approved', reviewerId: request.user.id, note })
+
+    // No XP for receiving, but the recipient's achievements (feedbacks_recebidos) listen to the event
+    const recipient = await prisma.user.findUnique({ where: { id: feedback.toUserId }, select: { role: true } })
+    if (recipient) {
+      await awardXpUseCase({
+        userId: feedback.toUserId,
+        userRole: recipient.role,
+        action: 'receber_feedback',
+        xp: 0,
+        source: { type: 'feedback', id },
+      })
+    }
+
+    if (feedback.isPublic) {
+      await notifyPendingMentionsUseCase({
+        sourceType: 'feedback',
+        sourceId: id,
+        anonymous: feedback.isAnonymous,
+        data: { feedbackId: id },
+      })
+    }
 
     return reply.send({ data: feedback })
   })
@@ -166,15 +290,8 @@ export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
     const { id } = z.object({ id: z.string() }).parse(request.params)
     const { note } = z.object({ note: z.string().optional() }).parse(request.body ?? {})
 
-    const feedback = await prisma.feedback.update({
-      where: { id },
-      data: {
-        status: 'rejeitado',
-        reviewedBy: request.user.id,
-        reviewedAt: new Date(),
-        reviewNote: note,
-      },
-    })
+    // Held gift stars go back to the sender
+    const feedback = await reviewFeedbackUseCase({ feedbackId: id, outcome: 'rejected', reviewerId: request.user.id, note })
 
     return reply.send({ data: feedback })
   })
@@ -213,4 +330,36 @@ export async function feedbacksRoutes(fastify: FastifyInstance): Promise<void> {
 
     return reply.send({ data: settings })
   })
+
+  // GET /feedbacks/gift-settings - star gifting caps (admin)
+  fastify.get('/gift-settings', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Feedbacks'], summary: 'Get star gifting settings' },
+  }, async (_request, reply) => {
+    const settings = await getStarGiftSettings()
+    return reply.send({ data: settings })
+  })
+
+  // PUT /feedbacks/gift-settings - update star gifting caps (admin)
+  fastify.put('/gift-settings', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Feedbacks'], summary: 'Update star gifting settings' },
+  }, async (request, reply) => {
+    const body = z.object({
+      enabled: z.boolean().optional(),
+      maxStarsPerGift: z.number().int().min(1).max(100).optional(),
+      maxStarsPerDay: z.number().int().min(1).max(500).optional(),
+      maxStarsPerRecipient: z.number().int().min(1).max(1000).optional(),
+      maxReciprocalStars: z.number().int().min(0).max(1000).optional(),
+      windowDays: z.number().int().min(1).max(365).optional(),
+    }).parse(request.body)
+
+    const settings = await prisma.starGiftSettings.upsert({
+      where: { id: 'singleton' },
+      create: { id: 'singleton', ...body },
+      update: body,
+    })
+
+    return reply.send({ data: settings })
+  })
 }
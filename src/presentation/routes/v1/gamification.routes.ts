@@ -0,0 +1,238 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../../infrastructure/database/prisma.client.js'
+import { authenticate } from '../../middlewares/authenticate.js'
+import { authorize } from '../../middlewares/authorize.js'
+import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import { GAMIFICATION_DUPLICATE_ACTION } from '../../../application/gamification/award-xp.usecase.js'
+import {
+  REWARD_ACTIONS,
+  actionRewardSchema,
+  getRewardRulesUseCase,
+  updateRewardRulesUseCase,
+  activateRewardRulesVersionUseCase,
+} from '../../../application/gamification/reward-rules.usecase.js'
+import {
+  levelCurveSchema,
+  getLevelCurveUseCase,
+  buildLevelTable,
+  updateLevelCurveUseCase,
+  recalculateUserLevelsUseCase,
+} from '../../../application/gamification/level-curve.usecase.js'
+import { rebuildLeaderboardsUseCase } from '../../../application/ranking/rebuild-leaderboards.usecase.js'
+import { enqueueLeaderboardRebuild } from '../../../infrastructure/queue/bullmq.client.js'
+import { AppError } from '../../../shared/errors/app-error.js'
+
+export async function gamificationRoutes(fastify: FastifyInstance): Promise<void> {
+  // GET /gamification/rules - active XP/stars reward table
+  fastify.get('/rules', {
+    preHandler: [authenticate],
+    schema: { tags: ['Gamification'], summary: 'Get active reward rules' },
+  }, async (request, reply) => {
+    const { version, rules } = await getRewardRulesUseCase()
+    return reply.send({ data: { version, rules } })
+  })
+
+  // PUT /gamification/rules - publish a new rules version (super_admin)
+  fastify.put('/rules', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'Update reward rules (super_admin)' },
+  }, async (request, reply) => {
+    const body = z.object({
+      rules: z.record(z.enum(REWARD_ACTIONS), actionRewardSchema)
+        .refine(rules => Object.keys(rules).length > 0, 'At least one action is required'),
+      note: z.string().max(500).optional(),
+      // Version returned by GET /gamification/rules; a newer active version is a conflict
+      expectedVersion: z.number().int().min(1).nullable().optional(),
+    }).parse(request.body)
+
+    const ruleSet = await updateRewardRulesUseCase({
+      rules: body.rules,
+      note: body.note,
+      actorId: request.user.id,
+      expectedVersion: body.expectedVersion,
+    })
+
+    return reply.send({ data: ruleSet })
+  })
+
+  // GET /gamification/rules/history - all rules versions (super_admin)
+  fastify.get('/rules/history', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'List reward rules versions (super_admin)' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+
+    const [versions, total] = await Promise.all([
+      prisma.gamificationRuleSet.findMany({ skip, take, orderBy: { version: 'desc' } }),
+      prisma.gamificationRuleSet.count(),
+    ])
+
+    const changes = await prisma.auditLog.findMany({
+      where: {
+        action: { in: ['gamification.rules.update', 'gamification.rules.activate'] },
+        resourceId: { in: versions.map(v => v.id) },
+      },
+      orderBy: { createdAt: 'desc' },
+      include: { actor: { select: { id: true, nome: true } } },
+    })
+
+    const data = versions.map(v => ({
+      ...v,
+      changes: changes
+        .filter(c => c.resourceId === v.id)
+        .map(c => ({ action: c.action, actor: c.actor, createdAt: c.createdAt, metadata: c.metadata })),
+    }))
+
+    return reply.send({ data, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // POST /gamification/rules/:version/activate - roll back to a previous version (super_admin)
+  fastify.post('/rules/:version/activate', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'Activate a reward rules version (super_admin)' },
+  }, async (request, reply) => {
+    const { version } = z.object({ version: z.coerce.number().int().min(1) }).parse(request.params)
+    const { expectedVersion } = z.object({
+      expectedVersion: z.number().int().min(1).nullable().optional(),
+    }).parse(request.body ?? {})
+    const ruleSet = await activateRewardRulesVersionUseCase(version, request.user.id, expectedVersion)
+    return reply.send({ data: ruleSet })
+  })
+
+  // GET /gamification/levels - level curve with per-level thresholds and titles
+  fastify.get('/levels', {
+    preHandler: [authenticate],
+    schema: { tags: ['Gamification'], summary: 'Get level curve' },
+  }, async (request, reply) => {
+    const { upTo } = z.object({
+      upTo: z.coerce.number().int().min(1).max(200).default(20),
+    }).parse(request.query)
+
+    const curve = await getLevelCurveUseCase()
+    return reply.send({ data: { curve, levels: buildLevelTable(curve, upTo) } })
+  })
+
+  // PUT /gamification/levels - replace the level curve (super_admin)
+  fastify.put('/levels', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'Update level curve (super_admin)' },
+  }, async (request, reply) => {
+    const body = levelCurveSchema.parse(request.body)
+    const curve = await updateLevelCurveUseCase(body, request.user.id)
+    return reply.send({ data: { curve, levels: buildLevelTable(curve, 20) } })
+  })
+
+  // POST /gamification/levels/recalculate - apply the current curve to every user (super_admin)
+  fastify.post('/levels/recalculate', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'Recalculate nivel/xpProximo for all users (super_admin)' },
+  }, async (request, reply) => {
+    const summary = await recalculateUserLevelsUseCase(request.user.id)
+    return reply.send({ data: summary })
+  })
+
+  // GET /gamification/duplicates - awards rejected by idempotency key (super_admin)
+  fastify.get('/duplicates', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'List rejected duplicate XP awards (super_admin)' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      userId: z.string().optional(),
+      action: z.string().optional(),
+      from: z.string().datetime().optional(),
+      to: z.string().datetime().optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where: any = { action: GAMIFICATION_DUPLICATE_ACTION }
+    if (query.userId) where.resourceId = query.userId
+    if (query.action) where.metadata = { path: ['action'], equals: query.action }
+    if (query.from || query.to) {
+      where.createdAt = {}
+      if (query.from) where.createdAt.gte = new Date(query.from)
+      if (query.to) where.createdAt.lte = new Date(query.to)
+    }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: { actor: { select: { id: true, nome: true, avatar: true, departamento: true } } },
+      }),
+      prisma.auditLog.count({ where }),
+    ])
+
+    const data = logs.map(log => ({
+      id: log.id,
+      user: log.actor,
+      rejectedAt: log.createdAt,
+      ...(log.metadata as Record<string, unknown>),
+    }))
+
+    return reply.send({ data, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /gamification/leaderboards/drift - compare Redis leaderboards with Postgres without changing them (super_admin)
+  fastify.get('/leaderboards/drift', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'Report leaderboard drift (super_admin)' },
+  }, async (request, reply) => {
+    const report = await rebuildLeaderboardsUseCase({ actorId: request.user.id, dryRun: true })
+    return reply.send({ data: report })
+  })
+
+  // POST /gamification/leaderboards/rebuild - queue a full rebuild from Postgres (super_admin)
+  fastify.post('/leaderboards/rebuild', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'Rebuild all leaderboards (super_admin)' },
+  }, async (request, reply) => {
+    const jobId = await enqueueLeaderboardRebuild(request.user.id)
+    if (!jobId) throw new AppError('Leaderboard queue unavailable', 503, 'SERVICE_UNAVAILABLE')
+    return reply.code(202).send({ data: { jobId } })
+  })
+
+  // GET /gamification/leaderboards/rebuilds - past rebuild reports (super_admin)
+  fastify.get('/leaderboards/rebuilds', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Gamification'], summary: 'List leaderboard rebuild reports (super_admin)' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where = { action: 'leaderboard.rebuild' }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+        include: { actor: { select: { id: true, nome: true } } },
+      }),
+      prisma.auditLog.count({ where }),
+    ])
+
+    const data = logs.map(log => ({
+      id: log.id,
+      // null actor = scheduled run
+      triggeredBy: log.actor,
+      rebuiltAt: log.createdAt,
+      ...(log.metadata as Record<string, unknown>),
+    }))
+
+    return reply.send({ data, meta: buildPaginationMeta(total, page, limit) })
+  })
+}
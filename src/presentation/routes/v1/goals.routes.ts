@@ -3,7 +3,7 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
+import { NotFoundError, ForbiddenError, ValidationError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
 
 const CriterioSchema = z.object({
@@ -68,8 +68,19 @@ export async function goalsRoutes(fastify: FastifyInstance): Promise<void> {
       })
       const progressMap = new Map(userProgress.map(p => [p.goalId, p]))
 
+      // Team goals show the shared progress of the colaborador's team
+      const me = await prisma.user.findUnique({ where: { id: request.user.id }, select: { managerId: true } })
+      const teamProgress = me?.managerId
+        ? await prisma.teamGoalProgress.findMany({ where: { goalId: { in: goalIds }, gestorId: me.managerId } })
+        : []
+      const teamProgressMap = new Map(teamProgress.map(p => [p.goalId, p]))
+
       return reply.send({
-        data: goals.map(g => ({ ...g, userProgress: progressMap.get(g.id) ?? null })),
+        data: goals.map(g => ({
+          ...g,
+          userProgress: progressMap.get(g.id) ?? null,
+          teamProgress: teamProgressMap.get(g.id) ?? null,
+        })),
         meta: buildPaginationMeta(total, page, limit),
       })
     }
@@ -129,12 +140,28 @@ export async function goalsRoutes(fastify: FastifyInstance): Promise<void> {
       update: {},
     })
 
-    // Create progress records for team members
     const team = await prisma.user.findMany({
       where: { managerId: request.user.id, role: 'colaborador', isActive: true },
       select: { id: true },
     })
 
+    // Team goals track one shared progress record fed by every member
+    if (goal.escopo === 'time') {
+      await prisma.teamGoalProgress.upsert({
+        where: { goalId_gestorId: { goalId: id, gestorId: request.user.id } },
+        create: {
+          goalId: id,
+          gestorId: request.user.id,
+          criterioProgress: {
+            create: goal.criterios.map(c => ({ criterioId: c.id })),
+          },
+        },
+        update: {},
+      })
+      return reply.send({ data: { activated: true, teamSize: team.length } })
+    }
+
+    // Create progress records for team members
     for (const member of team) {
       await prisma.goalProgress.upsert({
         where: { goalId_userId: { goalId: id, userId: member.id } },
@@ -176,6 +203,39 @@ export async function goalsRoutes(fastify: FastifyInstance): Promise<void> {
     return reply.send({ data: progress })
   })
 
+  // GET /goals/:id/team-progress - shared progress of team goals (own team, or every team for super_admin)
+  fastify.get('/:id/team-progress', {
+    preHandler: [authenticate],
+    schema: { tags: ['Goals'], summary: 'Get team goal progress' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const goal = await prisma.goal.findUnique({ where: { id }, select: { id: true, escopo: true } })
+    if (!goal) throw new NotFoundError('Goal', id)
+    if (goal.escopo !== 'time') throw new ValidationError('Goal is not a team goal')
+
+    const where: any = { goalId: id }
+    if (request.user.role === 'gestor') {
+      where.gestorId = request.user.id
+    } else if (request.user.role === 'colaborador') {
+      const me = await prisma.user.findUnique({ where: { id: request.user.id }, select: { managerId: true } })
+      if (!me?.managerId) return reply.send({ data: [] })
+      where.gestorId = me.managerId
+    }
+
+    const progress = await prisma.teamGoalProgress.findMany({
+      where,
+      include: {
+        gestor: { select: { id: true, nome: true, avatar: true, departamento: true } },
+        criterioProgress: {
+          include: { criterio: true },
+        },
+      },
+    })
+
+    return reply.send({ data: progress })
+  })
+
   // PATCH /goals/:id/status (super_admin)
   fastify.patch('/:id/status', {
     preHandler: [authenticate, authorize(['super_admin'])],
@@ -0,0 +1,132 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../../infrastructure/database/prisma.client.js'
+import { authenticate } from '../../middlewares/authenticate.js'
+import { authorize } from '../../middlewares/authorize.js'
+import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import {
+  getModerationQueueUseCase,
+  getModerationSettings,
+  moderateContentUseCase,
+} from '../../../application/moderation/moderation.usecase.js'
+
+const TargetTypeSchema = z.enum(['feed_post', 'feed_comment'])
+
+const TargetParamsSchema = z.object({ targetType: TargetTypeSchema, id: z.string() })
+
+export async function moderationRoutes(fastify: FastifyInstance) {
+  // GET /moderation/queue - reported or automatically hidden content awaiting review
+  fastify.get('/queue', {
+    preHandler: [authenticate, authorize(['gestor'])],
+    schema: { tags: ['Moderation'], summary: 'Moderation queue (gestor+)' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      targetType: TargetTypeSchema.optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const { total, items } = await getModerationQueueUseCase({ targetType: query.targetType, skip, take })
+
+    return reply.send({ data: items, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /moderation/:targetType/:id/reports - every report filed against a post or comment
+  fastify.get('/:targetType/:id/reports', {
+    preHandler: [authenticate, authorize(['gestor'])],
+    schema: { tags: ['Moderation'], summary: 'Reports of a post or comment (gestor+)' },
+  }, async (request, reply) => {
+    const { targetType, id } = TargetParamsSchema.parse(request.params)
+
+    const reports = await prisma.contentReport.findMany({
+      where: { targetType, targetId: id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        reporter: { select: { id: true, nome: true, avatar: true, departamento: true } },
+      },
+    })
+
+    return reply.send({ data: reports })
+  })
+
+  // PATCH /moderation/:targetType/:id/hide - hide content and resolve its reports
+  fastify.patch('/:targetType/:id/hide', {
+    preHandler: [authenticate, authorize(['gestor'])],
+    schema: { tags: ['Moderation'], summary: 'Hide post or comment (gestor+)' },
+  }, async (request, reply) => {
+    const { targetType, id } = TargetParamsSchema.parse(request.params)
+    const { note } = z.object({ note: z.string().max(500).optional() }).parse(request.body ?? {})
+
+    const result = await moderateContentUseCase({ action: 'hide', targetType, targetId: id, actorId: request.user.id, actorRole: request.user.role, note })
+    return reply.send({ data: result })
+  })
+
+  // PATCH /moderation/:targetType/:id/restore - make content visible again and dismiss its reports
+  fastify.patch('/:targetType/:id/restore', {
+    preHandler: [authenticate, authorize(['gestor'])],
+    schema: { tags: ['Moderation'], summary: 'Restore post or comment (gestor+)' },
+  }, async (request, reply) => {
+    const { targetType, id } = TargetParamsSchema.parse(request.params)
+    const { note } = z.object({ note: z.string().max(500).optional() }).parse(request.body ?? {})
+
+    const result = await moderateContentUseCase({ action: 'restore', targetType, targetId: id, actorId: request.user.id, actorRole: request.user.role, note })
+    return reply.send({ data: result })
+  })
+
+  // DELETE /moderation/:targetType/:id - remove content and resolve its reports
+  fastify.delete('/:targetType/:id', {
+    preHandler: [authenticate, authorize(['gestor'])],
+    schema: { tags: ['Moderation'], summary: 'Delete post or comment (gestor+)' },
+  }, async (request, reply) => {
+    const { targetType, id } = TargetParamsSchema.parse(request.params)
+    const { note } = z.object({ note: z.string().max(500).optional() }).parse(request.query)
+
+    await moderateContentUseCase({ action: 'delete', targetType, targetId: id, actorId: request.user.id, actorRole: request.user.role, note })
+    return reply.code(204).send()
+  })
+
+  // GET /moderation/settings - auto-hide threshold and banned words (admin)
+  fastify.get('/settings', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Moderation'], summary: 'Get moderation settings' },
+  }, async (_request, reply) => {
+    const settings = await getModerationSettings()
+    return reply.send({ data: settings })
+  })
+
+  // PUT /moderation/settings - update moderation settings (admin)
+  fastify.put('/settings', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Moderation'], summary: 'Update moderation settings' },
+  }, async (request, reply) => {
+    const body = z.object({
+      // 0 turns automatic hiding off
+      autoHideThreshold: z.number().int().min(0).max(100).optional(),
+      bannedWords: z.array(z.string().trim().min(1).max(100)).max(500).optional(),
+      bannedWordAction: z.enum(['rejeitar', 'ocultar']).optional(),
+    }).parse(request.body)
+
+    if (body.bannedWords) body.bannedWords = [...new Set(body.bannedWords.map(w => w.toLowerCase()))]
+
+    const settings = await prisma.$transaction(async (tx) => {
+      const updated = await tx.moderationSettings.upsert({
+        where: { id: 'singleton' },
+        create: { id: 'singleton', ...body },
+        update: body,
+      })
+      await tx.auditLog.create({
+        data: {
+          actorId: request.user.id,
+          action: 'moderation.settings_update',
+          resourceType: 'moderation_settings',
+          resourceId: 'singleton',
+          metadata: body,
+        },
+      })
+      return updated
+    })
+
+    return reply.send({ data: settings })
+  })
+}
@@ -3,8 +3,10 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase, XP_REWARDS } from '../../../application/gamification/award-xp.usecase.js'
+import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import { getActionReward } from '../../../application/gamification/reward-rules.usecase.js'
 import { ConflictError, ForbiddenError } from '../../../shared/errors/app-error.js'
+import { toLocalDateString, addDays, resolveTimeZone } from '../../../shared/utils/date.js'
 
 export async function moodRoutes(fastify: FastifyInstance): Promise<void> {
   // POST /mood - register today's mood (once per day)
@@ -17,7 +19,8 @@ export async function moodRoutes(fastify: FastifyInstance): Promise<void> {
       note: z.string().max(500).optional(),
     }).parse(request.body)
 
-    const today = new Date().toISOString().split('T')[0]
+    // MoodEntry.date is the user's local day
+    const today = toLocalDateString(new Date(), resolveTimeZone(request.user.timezone))
     const userId = request.user.id
 
     const existing = await prisma.moodEntry.findUnique({
@@ -33,11 +36,14 @@ export async function moodRoutes(fastify: FastifyInstance): Promise<void> {
     })
 
     // Award XP asynchronously
+    const reward = await getActionReward('registrar_humor')
     await awardXpUseCase({
       userId,
       userRole: request.user.role,
       action: 'registrar_humor',
-      xp: XP_REWARDS.registrar_humor,
+      xp: reward.xp,
+      stars: reward.stars,
+      source: { type: 'mood_entry', id: entry.id },
       context: { date: today, mood: body.mood },
     })
 
@@ -49,7 +55,7 @@ export async function moodRoutes(fastify: FastifyInstance): Promise<void> {
     preHandler: [authenticate],
     schema: { tags: ['Mood'], summary: 'Check if mood registered today' },
   }, async (request, reply) => {
-    const today = new Date().toISOString().split('T')[0]
+    const today = toLocalDateString(new Date(), resolveTimeZone(request.user.timezone))
     const entry = await prisma.moodEntry.findUnique({
       where: { userId_date: { userId: request.user.id, date: today } },
     })
@@ -65,9 +71,8 @@ export async function moodRoutes(fastify: FastifyInstance): Promise<void> {
       days: z.coerce.number().min(1).max(365).default(30),
     }).parse(request.query)
 
-    const since = new Date()
-    since.setDate(since.getDate() - query.days)
-    const sinceStr = since.toISOString().split('T')[0]
+    const today = toLocalDateString(new Date(), resolveTimeZone(request.user.timezone))
+    const sinceStr = addDays(today, -query.days)
 
     const entries = await prisma.moodEntry.findMany({
       where: {
@@ -108,10 +113,8 @@ export async function moodRoutes(fastify: FastifyInstance): Promise<void> {
     preHandler: [authenticate, authorize(['gestor'])],
     schema: { tags: ['Mood'], summary: "Get team's mood data (gestor+)" },
   }, async (request, reply) => {
-    const today = new Date().toISOString().split('T')[0]
-    const sevenDaysAgo = new Date()
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
-    const sevenDaysAgoStr = sevenDaysAgo.toISOString().split('T')[0]
+    const today = toLocalDateString(new Date(), resolveTimeZone(request.user.timezone))
+    const sevenDaysAgoStr = addDays(today, -7)
 
     // Get team members
     const teamFilter = request.user.role === 'super_admin'
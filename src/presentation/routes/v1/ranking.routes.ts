@@ -2,126 +2,262 @@ import type { FastifyInstance } from 'fastify'
 import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
+import { authorize } from '../../middlewares/authorize.js'
+import { ConflictError, NotFoundError, ValidationError } from '../../../shared/errors/app-error.js'
+import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
 import {
-  getLeaderboard,
-  getUserRank,
-  LEADERBOARD_KEY,
-  LEADERBOARD_TTL,
-} from '../../../infrastructure/cache/redis.client.js'
+  getScopedLeaderboardUseCase,
+  type LeaderboardPeriod,
+  type LeaderboardScope,
+} from '../../../application/ranking/leaderboard.usecase.js'
+import {
+  getSeasonLeaderboardUseCase,
+  type SeasonLeaderboardEntry,
+} from '../../../application/seasons/season-leaderboard.usecase.js'
+import { seasonPrizeSchema, validateSeasonPrizes } from '../../../application/seasons/finalize-season.usecase.js'
+
+const RankingQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+  period: z.enum(['week', 'month', 'all']).default('all'),
+})
+
+async function buildRanking(
+  scope: LeaderboardScope,
+  query: { limit: number; offset: number; period: LeaderboardPeriod },
+  currentUserId: string,
+) {
+  const { entries, currentUser } = await getScopedLeaderboardUseCase({
+    scope,
+    period: query.period,
+    offset: query.offset,
+    limit: query.limit,
+    userId: currentUserId,
+  })
+
+  return {
+    period: query.period,
+    ranking: await enrichRanking(entries, currentUserId),
+    currentUserRank: currentUser?.rank ?? null,
+    currentUserScore: currentUser?.score ?? null,
+  }
+}
+
+// Attach user data to ranked entries (users no longer found are dropped)
+async function enrichRanking(entries: SeasonLeaderboardEntry[], currentUserId: string) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: entries.map(e => e.userId) } },
+    select: { id: true, nome: true, cargo: true, departamento: true, avatar: true, nivel: true, xp: true, estrelas: true },
+  })
+  const userMap = new Map(users.map(u => [u.id, u]))
+
+  return entries.map(({ userId, ...entry }) => ({
+    ...entry,
+    ...userMap.get(userId),
+    isCurrentUser: userId === currentUserId,
+  })).filter(e => e.id)
+}
 
 export async function rankingRoutes(fastify: FastifyInstance): Promise<void> {
-  // GET /ranking/global
+  // GET /ranking/global?period=week|month|all
   fastify.get('/global', {
     preHandler: [authenticate],
     schema: { tags: ['Ranking'], summary: 'Global XP ranking' },
   }, async (request, reply) => {
-    const query = z.object({
-      limit: z.coerce.number().min(1).max(100).default(50),
-      offset: z.coerce.number().min(0).default(0),
-    }).parse(request.query)
+    const query = RankingQuerySchema.parse(request.query)
+    const data = await buildRanking({ type: 'global' }, query, request.user.id)
+    return reply.send({ data })
+  })
+
+  // GET /ranking/team - the gestor's team, the colaborador's own team, or any team for super_admin
+  fastify.get('/team', {
+    preHandler: [authenticate],
+    schema: { tags: ['Ranking'], summary: 'Team ranking' },
+  }, async (request, reply) => {
+    const query = RankingQuerySchema.extend({ managerId: z.string().optional() }).parse(request.query)
 
-    // Try Redis first, fallback to DB if unavailable
-    let leaderboard: Array<{ userId: string; xp: number; rank: number }> = []
-    try {
-      leaderboard = await getLeaderboard(query.offset, query.limit)
-    } catch {
-      // Redis unavailable, will use DB fallback
+    let managerId: string | null = null
+    if (request.user.role === 'super_admin') {
+      managerId = query.managerId ?? null
+    } else if (request.user.role === 'gestor') {
+      managerId = request.user.id
+    } else {
+      const me = await prisma.user.findUnique({ where: { id: request.user.id }, select: { managerId: true } })
+      managerId = me?.managerId ?? null
     }
 
-    if (leaderboard.length === 0) {
-      // Fallback to DB
-      const users = await prisma.user.findMany({
-        where: { role: 'colaborador', isActive: true },
-        orderBy: { xp: 'desc' },
-        skip: query.offset,
-        take: query.limit,
-        select: { id: true, nome: true, cargo: true, departamento: true, avatar: true, nivel: true, xp: true, estrelas: true },
-      })
+    // super_admin without a managerId sees every colaborador, as before
+    let scope: LeaderboardScope | null = null
+    if (managerId) scope = { type: 'team', managerId }
+    else if (request.user.role === 'super_admin') scope = { type: 'global' }
 
-      leaderboard = users.map((u, idx) => ({ userId: u.id, xp: u.xp, rank: query.offset + idx + 1 }))
-
-      // Try to populate Redis (non-blocking)
-      try {
-        const { redis } = await import('../../../infrastructure/cache/redis.client.js')
-        const pipeline = redis.pipeline()
-        users.forEach(u => pipeline.zadd(LEADERBOARD_KEY, u.xp, u.id))
-        pipeline.expire(LEADERBOARD_KEY, LEADERBOARD_TTL)
-        await pipeline.exec()
-      } catch {
-        // Redis unavailable, skip cache update
-      }
+    if (!scope) {
+      return reply.send({
+        data: { period: query.period, ranking: [], currentUserRank: null, currentUserScore: null },
+      })
     }
 
-    // Enrich with user data
-    const userIds = leaderboard.map(e => e.userId)
-    const users = await prisma.user.findMany({
-      where: { id: { in: userIds } },
-      select: { id: true, nome: true, cargo: true, departamento: true, avatar: true, nivel: true, xp: true, estrelas: true },
-    })
-    const userMap = new Map(users.map(u => [u.id, u]))
+    const data = await buildRanking(scope, query, request.user.id)
+    return reply.send({ data })
+  })
 
-    let currentUserRank: number | null = null
-    try {
-      currentUserRank = await getUserRank(request.user.id)
-    } catch {
-      // Redis unavailable
-    }
+  // GET /ranking/department/:dept
+  fastify.get('/department/:dept', {
+    preHandler: [authenticate],
+    schema: { tags: ['Ranking'], summary: 'Department ranking' },
+  }, async (request, reply) => {
+    const { dept } = z.object({ dept: z.string() }).parse(request.params)
+    const query = RankingQuerySchema.parse(request.query)
 
-    return reply.send({
-      data: {
-        ranking: leaderboard.map(e => ({
-          rank: e.rank,
-          ...userMap.get(e.userId),
-          isCurrentUser: e.userId === request.user.id,
-        })).filter(e => e.id),
-        currentUserRank,
-      },
-    })
+    const data = await buildRanking({ type: 'department', departamento: dept }, query, request.user.id)
+    return reply.send({ data })
   })
 
-  // GET /ranking/team - team ranking (gestor+)
-  fastify.get('/team', {
+  // GET /ranking/seasons
+  fastify.get('/seasons', {
     preHandler: [authenticate],
-    schema: { tags: ['Ranking'], summary: 'Team ranking' },
+    schema: { tags: ['Ranking'], summary: 'List seasons' },
   }, async (request, reply) => {
-    const where = request.user.role === 'super_admin'
-      ? { role: 'colaborador' as const, isActive: true }
-      : { managerId: request.user.id, isActive: true }
-
-    const team = await prisma.user.findMany({
-      where,
-      orderBy: { xp: 'desc' },
-      select: { id: true, nome: true, cargo: true, departamento: true, avatar: true, nivel: true, xp: true, estrelas: true },
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      status: z.enum(['scheduled', 'active', 'closed']).optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where: any = {}
+    if (query.status) where.status = query.status
+
+    const [seasons, total] = await Promise.all([
+      prisma.season.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { startsAt: 'desc' },
+        include: { _count: { select: { standings: true } } },
+      }),
+      prisma.season.count({ where }),
+    ])
+
+    return reply.send({ data: seasons, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /ranking/seasons/:id - live leaderboard, or the archived standings once closed
+  fastify.get('/seasons/:id', {
+    preHandler: [authenticate],
+    schema: { tags: ['Ranking'], summary: 'Season leaderboard' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const query = z.object({
+      limit: z.coerce.number().min(1).max(100).default(50),
+      offset: z.coerce.number().min(0).default(0),
+    }).parse(request.query)
+
+    const { season, archived, entries, currentUser } = await getSeasonLeaderboardUseCase({
+      seasonId: id,
+      offset: query.offset,
+      limit: query.limit,
+      userId: request.user.id,
     })
 
     return reply.send({
-      data: team.map((u, idx) => ({
-        rank: idx + 1,
-        ...u,
-        isCurrentUser: u.id === request.user.id,
-      })),
+      data: {
+        season,
+        archived,
+        ranking: await enrichRanking(entries, request.user.id),
+        currentUserRank: currentUser?.rank ?? null,
+        currentUserScore: currentUser?.score ?? null,
+      },
     })
   })
 
-  // GET /ranking/department/:dept
-  fastify.get('/department/:dept', {
-    preHandler: [authenticate],
-    schema: { tags: ['Ranking'], summary: 'Department ranking' },
+  // POST /ranking/seasons (super_admin)
+  fastify.post('/seasons', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Ranking'], summary: 'Create season (super_admin)' },
   }, async (request, reply) => {
-    const { dept } = z.object({ dept: z.string() }).parse(request.params)
+    const body = z.object({
+      nome: z.string().min(1),
+      descricao: z.string().optional(),
+      startsAt: z.string().datetime(),
+      endsAt: z.string().datetime(),
+      publicoAlvoType: z.enum(['todo_time', 'colaboradores_especificos', 'por_departamento']).default('todo_time'),
+      targetIds: z.array(z.string()).default([]),
+      prizes: z.array(seasonPrizeSchema).default([]),
+    }).refine(b => new Date(b.startsAt) < new Date(b.endsAt), {
+      message: 'endsAt must be after startsAt',
+      path: ['endsAt'],
+    }).parse(request.body)
+
+    if (new Date(body.endsAt) <= new Date()) throw new ValidationError('endsAt must be in the future')
+    await validateSeasonPrizes(body.prizes)
 
-    const users = await prisma.user.findMany({
-      where: { departamento: dept, role: 'colaborador', isActive: true },
-      orderBy: { xp: 'desc' },
-      select: { id: true, nome: true, cargo: true, nivel: true, xp: true, estrelas: true, avatar: true },
+    const startsAt = new Date(body.startsAt)
+    const season = await prisma.season.create({
+      data: {
+        ...body,
+        startsAt,
+        endsAt: new Date(body.endsAt),
+        status: startsAt <= new Date() ? 'active' : 'scheduled',
+        createdById: request.user.id,
+      },
     })
+    return reply.code(201).send({ data: season })
+  })
 
-    return reply.send({
-      data: users.map((u, idx) => ({
-        rank: idx + 1,
-        ...u,
-        isCurrentUser: u.id === request.user.id,
-      })),
+  // PUT /ranking/seasons/:id (super_admin) - dates and audience are locked once the season starts
+  fastify.put('/seasons/:id', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Ranking'], summary: 'Update season (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const body = z.object({
+      nome: z.string().min(1).optional(),
+      descricao: z.string().nullable().optional(),
+      startsAt: z.string().datetime().optional(),
+      endsAt: z.string().datetime().optional(),
+      publicoAlvoType: z.enum(['todo_time', 'colaboradores_especificos', 'por_departamento']).optional(),
+      targetIds: z.array(z.string()).optional(),
+      prizes: z.array(seasonPrizeSchema).optional(),
+    }).parse(request.body)
+
+    const existing = await prisma.season.findUnique({ where: { id } })
+    if (!existing) throw new NotFoundError('Season', id)
+    if (existing.status === 'closed') throw new ConflictError('Season is already closed')
+
+    const started = existing.startsAt <= new Date()
+    if (started && (body.startsAt || body.endsAt || body.publicoAlvoType || body.targetIds)) {
+      throw new ConflictError('Dates and audience cannot change after the season starts')
+    }
+    const startsAt = body.startsAt ? new Date(body.startsAt) : existing.startsAt
+    const endsAt = body.endsAt ? new Date(body.endsAt) : existing.endsAt
+    if (startsAt >= endsAt) throw new ValidationError('endsAt must be after startsAt')
+    if (body.prizes) await validateSeasonPrizes(body.prizes)
+
+    const season = await prisma.season.update({
+      where: { id },
+      data: {
+        ...body,
+        startsAt,
+        endsAt,
+        ...(!started ? { status: startsAt <= new Date() ? 'active' as const : 'scheduled' as const } : {}),
+      },
     })
+    return reply.send({ data: season })
+  })
+
+  // DELETE /ranking/seasons/:id (super_admin) - only before the season starts
+  fastify.delete('/seasons/:id', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Ranking'], summary: 'Delete season (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const existing = await prisma.season.findUnique({ where: { id } })
+    if (!existing) throw new NotFoundError('Season', id)
+    if (existing.startsAt <= new Date()) throw new ConflictError('Season already started')
+
+    await prisma.season.delete({ where: { id } })
+    return reply.code(204).send()
   })
 }
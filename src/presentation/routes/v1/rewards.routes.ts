@@ -1,14 +1,20 @@
 import type { FastifyInstance } from 'fastify'
+import type { Prisma } from '@prisma/client'
 import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
+import { NotFoundError, ValidationError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
-import { enqueueNotification } from '../../../infrastructure/queue/bullmq.client.js'
+import { redeemRewardUseCase } from '../../../application/rewards/redeem-reward.usecase.js'
+import { transitionRedemptionUseCase } from '../../../application/rewards/fulfill-redemption.usecase.js'
+import {
+  buildRewardAvailabilityWhere,
+  getRewardEligibility,
+} from '../../../application/rewards/reward-eligibility.usecase.js'
 
 export async function rewardsRoutes(fastify: FastifyInstance): Promise<void> {
-  // GET /rewards
+  // GET /rewards - catalog with per-item eligibility for the current user
   fastify.get('/', {
     preHandler: [authenticate],
     schema: { tags: ['Rewards'], summary: 'List rewards' },
@@ -16,24 +22,85 @@ export async function rewardsRoutes(fastify: FastifyInstance): Promise<void> {
     const query = z.object({
       page: z.coerce.number().optional(),
       limit: z.coerce.number().optional(),
+      category: z.string().optional(),
+      sort: z.enum(['custo_asc', 'custo_desc', 'recentes', 'nome']).default('custo_asc'),
+      onlyEligible: z.coerce.boolean().optional(),
+      onlyAffordable: z.coerce.boolean().optional(),
+      includeUnavailable: z.coerce.boolean().optional(),
     }).parse(request.query)
 
     const { skip, take, page, limit } = getPaginationParams(query)
+    const user = await prisma.user.findUnique({
+      where: { id: request.user.id },
+      select: { estrelas: true, nivel: true, departamento: true, cargo: true },
+    })
+    if (!user) throw new NotFoundError('User', request.user.id)
+
+    const now = new Date()
+    const and: Prisma.RewardWhereInput[] = [{ isActive: true }]
+    if (query.category) and.push({ category: query.category })
+    // Rewards outside their window are hidden, super_admin can still list them to manage scheduling
+    if (!(query.includeUnavailable && request.user.role === 'super_admin')) {
+      and.push(buildRewardAvailabilityWhere(now))
+    }
+    if (query.onlyEligible) {
+      and.push(
+        { OR: [{ nivelMinimo: null }, { nivelMinimo: { lte: user.nivel } }] },
+        { OR: [{ departamentos: { isEmpty: true } }, { departamentos: { has: user.departamento } }] },
+        { OR: [{ cargos: { isEmpty: true } }, { cargos: { has: user.cargo } }] },
+        { OR: [{ quantidade: null }, { resgatados: { lt: prisma.reward.fields.quantidade } }] },
+      )
+    }
+    if (query.onlyAffordable) and.push({ custo: { lte: user.estrelas } })
+    const where: Prisma.RewardWhereInput = { AND: and }
+
+    const orderBy: Prisma.RewardOrderByWithRelationInput[] = {
+      custo_asc: [{ custo: 'asc' as const }],
+      custo_desc: [{ custo: 'desc' as const }],
+      recentes: [{ createdAt: 'desc' as const }],
+      nome: [{ nome: 'asc' as const }],
+    }[query.sort]
 
     const [rewards, total] = await Promise.all([
       prisma.reward.findMany({
-        where: { isActive: true },
+        where,
         skip,
         take,
-        orderBy: { custo: 'asc' },
+        orderBy: [...orderBy, { id: 'asc' }],
         include: {
           _count: { select: { redemptions: true } },
         },
       }),
-      prisma.reward.count({ where: { isActive: true } }),
+      prisma.reward.count({ where }),
     ])
 
-    return reply.send({ data: rewards, meta: buildPaginationMeta(total, page, limit) })
+    const data = rewards.map((reward) => {
+      const eligibility = getRewardEligibility(reward, user, now)
+      return {
+        ...reward,
+        remaining: eligibility.remaining,
+        canAfford: eligibility.canAfford,
+        eligible: eligibility.eligible,
+        ineligibleReasons: eligibility.reasons,
+      }
+    })
+
+    return reply.send({ data, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // GET /rewards/categories - categories of the currently available catalog
+  fastify.get('/categories', {
+    preHandler: [authenticate],
+    schema: { tags: ['Rewards'], summary: 'List reward categories' },
+  }, async (_request, reply) => {
+    const groups = await prisma.reward.groupBy({
+      by: ['category'],
+      where: { isActive: true, category: { not: null }, ...buildRewardAvailabilityWhere() },
+      _count: { _all: true },
+      orderBy: { category: 'asc' },
+    })
+
+    return reply.send({ data: groups.map(g => ({ category: g.category, count: g._count._all })) })
   })
 
   // POST /rewards (super_admin)
@@ -46,11 +113,31 @@ export async function rewardsRoutes(fastify: FastifyInstance): Promise<void> {
       descricao: z.string().optional(),
       custo: z.number().int().min(1),
       quantidade: z.number().int().min(1).optional(),
+      limitePorUsuario: z.number().int().min(1).optional(),
+      limitePorPeriodo: z.number().int().min(1).optional(),
+      periodoLimite: z.enum(['semanal', 'mensal', 'trimestral']).optional(),
+      disponivelDe: z.string().datetime().optional(),
+      disponivelAte: z.string().datetime().optional(),
+      nivelMinimo: z.number().int().min(1).optional(),
+      departamentos: z.array(z.string().min(1)).optional(),
+      cargos: z.array(z.string().min(1)).optional(),
       imageUrl: z.string().url().optional(),
       category: z.string().optional(),
+    }).refine(b => !b.limitePorPeriodo === !b.periodoLimite, {
+      message: 'limitePorPeriodo and periodoLimite must be set together',
+      path: ['periodoLimite'],
+    }).refine(b => !b.disponivelDe || !b.disponivelAte || new Date(b.disponivelDe) < new Date(b.disponivelAte), {
+      message: 'disponivelAte must be after disponivelDe',
+      path: ['disponivelAte'],
     }).parse(request.body)
 
-    const reward = await prisma.reward.create({ data: body })
+    const reward = await prisma.reward.create({
+      data: {
+        ...body,
+        disponivelDe: body.disponivelDe ? new Date(body.disponivelDe) : undefined,
+        disponivelAte: body.disponivelAte ? new Date(body.disponivelAte) : undefined,
+      },
+    })
     return reply.code(201).send({ data: reward })
   })
 
@@ -65,10 +152,38 @@ export async function rewardsRoutes(fastify: FastifyInstance): Promise<void> {
       descricao: z.string().optional(),
       custo: z.number().int().min(1).optional(),
       quantidade: z.number().int().min(1).nullable().optional(),
+      limitePorUsuario: z.number().int().min(1).nullable().optional(),
+      limitePorPeriodo: z.number().int().min(1).nullable().optional(),
+      periodoLimite: z.enum(['semanal', 'mensal', 'trimestral']).nullable().optional(),
+      disponivelDe: z.string().datetime().nullable().optional(),
+      disponivelAte: z.string().datetime().nullable().optional(),
+      nivelMinimo: z.number().int().min(1).nullable().optional(),
+      departamentos: z.array(z.string().min(1)).optional(),
+      cargos: z.array(z.string().min(1)).optional(),
+      category: z.string().nullable().optional(),
       isActive: z.boolean().optional(),
     }).parse(request.body)
 
-    const reward = await prisma.reward.update({ where: { id }, data: body })
+    const existing = await prisma.reward.findUnique({ where: { id } })
+    if (!existing) throw new NotFoundError('Reward', id)
+    const toDate = (value: string | null | undefined) => (value ? new Date(value) : value)
+    const disponivelDe = toDate(body.disponivelDe)
+    const disponivelAte = toDate(body.disponivelAte)
+    const windowStart = disponivelDe !== undefined ? disponivelDe : existing.disponivelDe
+    const windowEnd = disponivelAte !== undefined ? disponivelAte : existing.disponivelAte
+    if (windowStart && windowEnd && windowStart >= windowEnd) {
+      throw new ValidationError('disponivelAte must be after disponivelDe')
+    }
+    const limitePorPeriodo = body.limitePorPeriodo !== undefined ? body.limitePorPeriodo : existing.limitePorPeriodo
+    const periodoLimite = body.periodoLimite !== undefined ? body.periodoLimite : existing.periodoLimite
+    if (!limitePorPeriodo !== !periodoLimite) {
+      throw new ValidationError('limitePorPeriodo and periodoLimite must be set together')
+    }
+
+    const reward = await prisma.reward.update({
+      where: { id },
+      data: { ...body, disponivelDe, disponivelAte },
+    })
     return reply.send({ data: reward })
   })
 
@@ -77,51 +192,12 @@ export async function rewardsRoutes(fastify: FastifyInstance): Promise<void> {
     preHandler: [authenticate],
     schema: { tags: ['Rewards'], summary: 'Redeem reward (costs stars)' },
   }, async (request, reply) => {
-    if (request.user.role !== 'colaborador') {
-      throw new ForbiddenError('Only colaboradores can redeem rewards')
-    }
-
     const { id } = z.object({ id: z.string() }).parse(request.params)
 
-    const reward = await prisma.reward.findUnique({ where: { id } })
-    if (!reward || !reward.isActive) throw new NotFoundError('Reward', id)
-
-    // Check stock
-    if (reward.quantidade !== null) {
-      const redeemed = await prisma.rewardRedemption.count({ where: { rewardId: id } })
-      if (redeemed >= reward.quantidade) {
-        throw new ForbiddenError('Reward out of stock')
-      }
-    }
-
-    // Check user stars
-    const user = await prisma.user.findUnique({ where: { id: request.user.id } })
-    if (!user) throw new NotFoundError('User', request.user.id)
-    if (user.estrelas < reward.custo) {
-      throw new ForbiddenError(`Insufficient stars. Need ${reward.custo}, have ${user.estrelas}`)
-    }
-
-    // Deduct stars and create redemption in a transaction
-    const [redemption] = await prisma.$transaction([
-      prisma.rewardRedemption.create({
-        data: {
-          rewardId: id,
-          userId: request.user.id,
-          starsCost: reward.custo,
-        },
-      }),
-      prisma.user.update({
-        where: { id: request.user.id },
-        data: { estrelas: { decrement: reward.custo } },
-      }),
-    ])
-
-    await enqueueNotification({
+    const { redemption, reward } = await redeemRewardUseCase({
+      rewardId: id,
       userId: request.user.id,
-      type: 'reward_redeemed',
-      title: 'Recompensa resgatada!',
-      message: `Você resgatou "${reward.nome}" por ${reward.custo} estrelas.`,
-      data: { rewardId: id, rewardName: reward.nome, starsCost: reward.custo },
+      userRole: request.user.role,
     })
 
     return reply.code(201).send({ data: { redemptionId: redemption.id, starsCost: reward.custo } })
@@ -141,4 +217,96 @@ export async function rewardsRoutes(fastify: FastifyInstance): Promise<void> {
     })
     return reply.send({ data: redemptions })
   })
+
+  // GET /rewards/admin/redemptions - redemptions across users (super_admin)
+  fastify.get('/admin/redemptions', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Rewards'], summary: 'List all redemptions (super_admin)' },
+  }, async (request, reply) => {
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      status: z.enum(['pending', 'approved', 'delivered', 'rejected']).optional(),
+      userId: z.string().optional(),
+      rewardId: z.string().optional(),
+      from: z.string().datetime().optional(),
+      to: z.string().datetime().optional(),
+    }).parse(request.query)
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where: any = {}
+    if (query.status) where.status = query.status
+    if (query.userId) where.userId = query.userId
+    if (query.rewardId) where.rewardId = query.rewardId
+    if (query.from || query.to) {
+      where.redeemedAt = {}
+      if (query.from) where.redeemedAt.gte = new Date(query.from)
+      if (query.to) where.redeemedAt.lte = new Date(query.to)
+    }
+
+    const [redemptions, total] = await Promise.all([
+      prisma.rewardRedemption.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { redeemedAt: 'desc' },
+        include: {
+          reward: { select: { id: true, nome: true, imageUrl: true } },
+          user: { select: { id: true, nome: true, email: true, departamento: true, avatar: true } },
+        },
+      }),
+      prisma.rewardRedemption.count({ where }),
+    ])
+
+    return reply.send({ data: redemptions, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // PATCH /rewards/redemptions/:redemptionId/approve (super_admin)
+  fastify.patch('/redemptions/:redemptionId/approve', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Rewards'], summary: 'Approve redemption (super_admin)' },
+  }, async (request, reply) => {
+    const { redemptionId } = z.object({ redemptionId: z.string() }).parse(request.params)
+
+    const redemption = await transitionRedemptionUseCase({
+      redemptionId,
+      to: 'approved',
+      actorId: request.user.id,
+    })
+    return reply.send({ data: redemption })
+  })
+
+  // PATCH /rewards/redemptions/:redemptionId/deliver (super_admin)
+  fastify.patch('/redemptions/:redemptionId/deliver', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Rewards'], summary: 'Mark redemption as delivered (super_admin)' },
+  }, async (request, reply) => {
+    const { redemptionId } = z.object({ redemptionId: z.string() }).parse(request.params)
+    const { trackingNote } = z.object({ trackingNote: z.string().max(1000).optional() }).parse(request.body ?? {})
+
+    const redemption = await transitionRedemptionUseCase({
+      redemptionId,
+      to: 'delivered',
+      actorId: request.user.id,
+      trackingNote,
+    })
+    return reply.send({ data: redemption })
+  })
+
+  // PATCH /rewards/redemptions/:redemptionId/reject - refunds the stars (super_admin)
+  fastify.patch('/redemptions/:redemptionId/reject', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Rewards'], summary: 'Reject redemption and refund stars (super_admin)' },
+  }, async (request, reply) => {
+    const { redemptionId } = z.object({ redemptionId: z.string() }).parse(request.params)
+    const { reason } = z.object({ reason: z.string().min(1).max(1000) }).parse(request.body)
+
+    const redemption = await transitionRedemptionUseCase({
+      redemptionId,
+      to: 'rejected',
+      actorId: request.user.id,
+      reason,
+    })
+    return reply.send({ data: redemption })
+  })
 }
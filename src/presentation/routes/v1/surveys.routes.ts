@@ -3,9 +3,15 @@ import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
-import { awardXpUseCase, XP_REWARDS, STAR_REWARDS } from '../../../application/gamification/award-xp.usecase.js'
+import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import { getActionReward } from '../../../application/gamification/reward-rules.usecase.js'
 import { NotFoundError, ForbiddenError, ConflictError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import {
+  buildAudienceWhere,
+  getAudienceMember,
+  isInAudience,
+} from '../../../application/audience/resolve-audience.usecase.js'
 
 const QuestionSchema = z.object({
   type: z.enum(['rating', 'text', 'nps', 'checkbox', 'radio', 'scale']),
@@ -46,6 +52,8 @@ export async function surveysRoutes(fastify: FastifyInstance): Promise<void> {
     if (!isAdmin) {
       // Colaboradores only see active surveys they're targeted for
       where.status = 'ativa'
+      const member = await getAudienceMember(request.user.id)
+      Object.assign(where, buildAudienceWhere('targetAudience', 'targetIds', member))
     } else if (query.status) {
       where.status = query.status
     }
@@ -97,6 +105,11 @@ export async function surveysRoutes(fastify: FastifyInstance): Promise<void> {
     })
     if (!survey) throw new NotFoundError('Survey', id)
 
+    const member = await getAudienceMember(request.user.id)
+    if (!isInAudience({ type: survey.targetAudience, targetIds: survey.targetIds }, member)) {
+      throw new ForbiddenError('Survey not available for your audience')
+    }
+
     const hasResponded = !!(await prisma.surveyResponse.findUnique({
       where: { surveyId_userId: { surveyId: id, userId: request.user.id } },
     }))
@@ -184,6 +197,11 @@ export async function surveysRoutes(fastify: FastifyInstance): Promise<void> {
     if (!survey) throw new NotFoundError('Survey', id)
     if (survey.status !== 'ativa') throw new ForbiddenError('Survey is not active')
 
+    const member = await getAudienceMember(request.user.id)
+    if (!isInAudience({ type: survey.targetAudience, targetIds: survey.targetIds }, member)) {
+      throw new ForbiddenError('Survey not available for your audience')
+    }
+
     const existing = await prisma.surveyResponse.findUnique({
       where: { surveyId_userId: { surveyId: id, userId: request.user.id } },
     })
@@ -202,12 +220,14 @@ export async function surveysRoutes(fastify: FastifyInstance): Promise<void> {
       },
     })
 
+    const reward = await getActionReward('responder_pesquisa')
     await awardXpUseCase({
       userId: request.user.id,
       userRole: request.user.role,
       action: 'responder_pesquisa',
-      xp: survey.rewardXP || XP_REWARDS.responder_pesquisa,
-      stars: STAR_REWARDS.responder_pesquisa,
+      xp: survey.rewardXP || reward.xp,
+      stars: reward.stars,
+      source: { type: 'survey', id },
     })
 
     return reply.code(201).send({ data: { responseId: response.id } })
@@ -1,4 +1,5 @@
 import type { FastifyInstance } from 'fastify'
+import type { PublicoAlvoType } from '@prisma/client'
 import { z } from 'zod'
 import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
@@ -6,6 +7,12 @@ import { authorize } from '../../middlewares/authorize.js'
 import { NotFoundError, ForbiddenError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
 import { awardXpUseCase } from '../../../application/gamification/award-xp.usecase.js'
+import {
+  buildAudienceWhere,
+  getAudienceMember,
+  isInAudience,
+  type AudienceMember,
+} from '../../../application/audience/resolve-audience.usecase.js'
 
 const contentOriginMap: Record<string, string> = {
   texto: 'texto',
@@ -45,6 +52,15 @@ function normalizeDate(input?: string | null): Date | null {
   return Number.isNaN(value.getTime()) ? null : value
 }
 
+function assertTrainingAudience(
+  training: { audienceType: PublicoAlvoType; audienceIds: string[] },
+  member: AudienceMember,
+): void {
+  if (!isInAudience({ type: training.audienceType, targetIds: training.audienceIds }, member)) {
+    throw new ForbiddenError('Training not available for your audience')
+  }
+}
+
 function mapEnumArray(values: string[], mapper: Record<string, string>): string[] {
   return values.map((v) => mapper[v]).filter(Boolean)
 }
@@ -77,6 +93,8 @@ export async function trainingsRoutes(fastify: FastifyInstance): Promise<void> {
       if (query.createdFrom) where.createdAt.gte = new Date(query.createdFrom)
       if (query.createdTo) where.createdAt.lte = new Date(query.createdTo)
     }
+    const member = await getAudienceMember(request.user.id)
+    where.AND = [buildAudienceWhere('audienceType', 'audienceIds', member)]
 
     const [trainings, total] = await Promise.all([
       prisma.training.findMany({
@@ -160,6 +178,7 @@ export async function trainingsRoutes(fastify: FastifyInstance): Promise<void> {
       },
     })
     if (!training || training.deletedAt) throw new NotFoundError('Training', id)
+    assertTrainingAudience(training, await getAudienceMember(request.user.id))
 
     const questionProgress = await prisma.trainingQuestionProgress.findMany({
       where: { trainingId: id, userId: request.user.id },
@@ -300,6 +319,7 @@ export async function trainingsRoutes(fastify: FastifyInstance): Promise<void> {
       include: { questions: { select: { id: true, correctOption: true, options: true } } },
     })
     if (!training || training.deletedAt) throw new NotFoundError('Training', id)
+    assertTrainingAudience(training, await getAudienceMember(request.user.id))
 
     const existing = await prisma.trainingProgress.findUnique({
       where: { trainingId_userId: { trainingId: id, userId: request.user.id } },
@@ -326,6 +346,7 @@ export async function trainingsRoutes(fastify: FastifyInstance): Promise<void> {
 
     const training = await prisma.training.findUnique({ where: { id } })
     if (!training || training.deletedAt) throw new NotFoundError('Training', id)
+    assertTrainingAudience(training, await getAudienceMember(request.user.id))
 
     const existing = await prisma.trainingProgress.findUnique({
       where: { trainingId_userId: { trainingId: id, userId: request.user.id } },
@@ -380,16 +401,16 @@ export async function trainingsRoutes(fastify: FastifyInstance): Promise<void> {
       },
     })
 
-    if (training.rewardsActive) {
-      await awardXpUseCase({
-        userId: request.user.id,
-        userRole: request.user.role,
-        action: 'completar_treinamento',
-        xp: training.rewardXP,
-        stars: training.rewardStars,
-        context: { trainingId: id },
-      })
-    }
+    // Always enqueued (0 XP when rewards are off) so goal criteria still track the completion
+    await awardXpUseCase({
+      userId: request.user.id,
+      userRole: request.user.role,
+      action: 'completar_treinamento',
+      xp: training.rewardsActive ? training.rewardXP : 0,
+      stars: training.rewardsActive ? training.rewardStars : 0,
+      source: { type: 'training', id },
+      context: { trainingId: id },
+    })
 
     return reply.send({ data: progress })
   })
@@ -412,6 +433,7 @@ export async function trainingsRoutes(fastify: FastifyInstance): Promise<void> {
       include: { questions: { select: { id: true, options: true, answerTypes: true } } },
     })
     if (!training || training.deletedAt) throw new NotFoundError('Training', id)
+    assertTrainingAudience(training, await getAudienceMember(request.user.id))
 
     const question = training.questions.find((q) => q.id === questionId)
     if (!question) throw new NotFoundError('TrainingQuestion', questionId)
@@ -4,8 +4,21 @@ import { prisma } from '../../../infrastructure/database/prisma.client.js'
 import { authenticate } from '../../middlewares/authenticate.js'
 import { authorize } from '../../middlewares/authorize.js'
 import { hashPassword } from '../../../shared/utils/password.js'
+import { env } from '../../../config/env.js'
 import { NotFoundError, ConflictError, ForbiddenError } from '../../../shared/errors/app-error.js'
 import { getPaginationParams, buildPaginationMeta } from '../../../shared/utils/pagination.js'
+import {
+  rebuildUserBalanceUseCase,
+  LEDGER_OPENING_ACTION,
+} from '../../../application/gamification/rebuild-balance.usecase.js'
+import { getLevelCurveUseCase } from '../../../application/gamification/level-curve.usecase.js'
+import { getLevelTitle } from '../../../shared/utils/level-calculator.js'
+import { getAchievementMetric } from '../../../application/achievements/evaluate-achievements.usecase.js'
+import { STREAK_MILESTONES } from '../../../application/gamification/register-daily-access.usecase.js'
+import { getMentionHandle } from '../../../application/mentions/mentions.usecase.js'
+import { moveUserLeaderboardScopes } from '../../../application/ranking/leaderboard.usecase.js'
+import { cacheUserTimezone } from '../../../application/auth/user-timezone.usecase.js'
+import { toLocalDateString, addDays, longestStreak, resolveTimeZone, isValidTimeZone } from '../../../shared/utils/date.js'
 
 const CreateUserSchema = z.object({
   email: z.string().email(),
@@ -29,6 +42,8 @@ const UpdateUserSchema = z.object({
   telefone: z.string().optional(),
   localizacao: z.string().optional(),
   hiredAt: z.string().datetime().optional(),
+  // Self-service changes are limited to one every TIMEZONE_CHANGE_COOLDOWN_DAYS
+  timezone: z.string().refine(isValidTimeZone, 'Invalid IANA timezone').nullable().optional(),
 })
 
 const NotificationPrefSchema = z.object({
@@ -39,6 +54,7 @@ const NotificationPrefSchema = z.object({
   recompensas: z.boolean().optional(),
   treinamentos: z.boolean().optional(),
   feedbacks: z.boolean().optional(),
+  mencoes: z.boolean().optional(),
 })
 
 const UpdatePasswordSchema = z.object({
@@ -99,6 +115,36 @@ export async function usersRoutes(fastify: FastifyInstance): Promise<void> {
     })
   })
 
+  // GET /users/mentions?q= - autocomplete for @mentions (active users by name or handle)
+  fastify.get('/mentions', {
+    ...authHooks,
+    schema: { tags: ['Users'], summary: 'Mention autocomplete' },
+  }, async (request, reply) => {
+    const query = z.object({
+      q: z.string().trim().min(1).max(100),
+      limit: z.coerce.number().min(1).max(20).default(8),
+    }).parse(request.query)
+
+    const handle = query.q.replace(/^@/, '')
+    const users = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        id: { not: request.user.id },
+        OR: [
+          { nome: { contains: handle, mode: 'insensitive' } },
+          { email: { startsWith: handle, mode: 'insensitive' } },
+        ],
+      },
+      take: query.limit,
+      orderBy: { nome: 'asc' },
+      select: { id: true, nome: true, email: true, cargo: true, departamento: true, avatar: true },
+    })
+
+    return reply.send({
+      data: users.map(({ email, ...user }) => ({ ...user, handle: getMentionHandle(email) })),
+    })
+  })
+
   // GET /users/:id
   fastify.get('/:id', {
     ...authHooks,
@@ -111,7 +157,7 @@ export async function usersRoutes(fastify: FastifyInstance): Promise<void> {
       select: {
         id: true, email: true, nome: true, cargo: true, departamento: true,
         role: true, nivel: true, xp: true, xpProximo: true, estrelas: true,
-        avatar: true, bio: true, telefone: true, localizacao: true, hiredAt: true,
+        avatar: true, bio: true, telefone: true, localizacao: true, hiredAt: true, timezone: true,
         managerId: true, createdAt: true,
         manager: { select: { id: true, nome: true, cargo: true, avatar: true } },
         _count: { select: { team: true } },
@@ -169,17 +215,49 @@ export async function usersRoutes(fastify: FastifyInstance): Promise<void> {
       }
     }
 
+    const current = await prisma.user.findUnique({
+      where: { id },
+      select: { departamento: true, managerId: true, timezone: true, timezoneChangedAt: true },
+    })
+    if (!current) throw new NotFoundError('User', id)
+
+    // Hopping across timezones would start a new local day early (missions, streak, daily XP)
+    let timezoneChangedAt: Date | undefined
+    if (body.timezone !== undefined) {
+      if (current.timezone !== body.timezone && isSelf) {
+        const cooldownMs = env.TIMEZONE_CHANGE_COOLDOWN_DAYS * 24 * 60 * 60 * 1000
+        const nextChange = current.timezoneChangedAt && new Date(current.timezoneChangedAt.getTime() + cooldownMs)
+        if (nextChange && nextChange > new Date()) {
+          throw new ForbiddenError(`Timezone can only be changed again after ${nextChange.toISOString()}`)
+        }
+        timezoneChangedAt = new Date()
+      }
+    }
+
     const user = await prisma.user.update({
       where: { id },
-      data: body,
+      data: { ...body, timezoneChangedAt },
       select: {
         id: true, email: true, nome: true, cargo: true, departamento: true,
         role: true, nivel: true, xp: true, xpProximo: true, estrelas: true,
-        avatar: true, bio: true, telefone: true, localizacao: true, hiredAt: true,
+        avatar: true, bio: true, telefone: true, localizacao: true, hiredAt: true, timezone: true,
+        managerId: true, isActive: true,
       },
     })
 
-    return reply.send({ data: user })
+    if (user.timezone !== current.timezone) await cacheUserTimezone(id, user.timezone)
+
+    if (user.departamento !== current.departamento || user.managerId !== current.managerId) {
+      try {
+        await moveUserLeaderboardScopes({ user, before: current, after: user })
+      } catch (err) {
+        // Redis unavailable, the daily leaderboard rebuild moves the user
+        request.log.warn(`[Leaderboard] Failed to move user ${id} between scopes: ${(err as Error).message}`)
+      }
+    }
+
+    const { isActive: _isActive, ...data } = user
+    return reply.send({ data })
   })
 
   // DELETE /users/:id (super_admin - soft delete)
@@ -249,12 +327,15 @@ export async function usersRoutes(fastify: FastifyInstance): Promise<void> {
 
     if (!user) throw new NotFoundError('User', id)
 
+    const levelTitle = getLevelTitle(user.nivel, await getLevelCurveUseCase())
     const modulosFinalizados = allCourseProgress.reduce((sum, cp) => sum + cp.completedLessons.length, 0)
     const diasEngajamento = engagementTracking?.dailyAccess?.length ?? 0
 
     return reply.send({
       data: {
         nivel: user.nivel,
+        levelTitle: levelTitle?.title ?? null,
+        levelBadge: levelTitle?.badge ?? null,
         xp: user.xp,
         xpProximo: user.xpProximo,
         estrelas: user.estrelas,
@@ -281,21 +362,21 @@ export async function usersRoutes(fastify: FastifyInstance): Promise<void> {
     const sixMonthsAgo = new Date()
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6)
 
-    const logs = await prisma.auditLog.findMany({
+    const entries = await prisma.xpLedgerEntry.findMany({
       where: {
-        actorId: id,
-        action: { startsWith: 'gamification.' },
+        userId: id,
+        action: { not: LEDGER_OPENING_ACTION },
+        xpDelta: { gt: 0 },
         createdAt: { gte: sixMonthsAgo },
       },
-      select: { createdAt: true, metadata: true },
+      select: { createdAt: true, xpDelta: true },
       orderBy: { createdAt: 'asc' },
     })
 
     const byMonth: Record<string, number> = {}
-    for (const log of logs) {
-      const key = log.createdAt.toISOString().slice(0, 7)
-      const meta = log.metadata as { xp?: number } | null
-      byMonth[key] = (byMonth[key] ?? 0) + (meta?.xp ?? 0)
+    for (const entry of entries) {
+      const key = entry.createdAt.toISOString().slice(0, 7)
+      byMonth[key] = (byMonth[key] ?? 0) + entry.xpDelta
     }
 
     const result = Object.entries(byMonth).map(([mes, xp]) => ({
@@ -307,6 +388,131 @@ export async function usersRoutes(fastify: FastifyInstance): Promise<void> {
     return reply.send({ data: result })
   })
 
+  // GET /users/:id/streak - daily access streak
+  fastify.get('/:id/streak', {
+    ...authHooks,
+    schema: { tags: ['Users'], summary: 'Get daily access streak' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true, timezone: true } })
+    if (!user) throw new NotFoundError('User', id)
+
+    const tracking = await prisma.engagementTracking.findUnique({
+      where: { userId: id },
+      select: { dailyAccess: true, consecutiveStreak: true, lastAccessDate: true },
+    })
+
+    const today = toLocalDateString(new Date(), resolveTimeZone(user.timezone))
+    const lastAccessDate = tracking?.lastAccessDate ?? null
+    // The streak survives until the end of the day after the last access
+    const alive = lastAccessDate !== null && lastAccessDate >= addDays(today, -1)
+    const currentStreak = alive ? tracking!.consecutiveStreak : 0
+
+    return reply.send({
+      data: {
+        currentStreak,
+        longestStreak: longestStreak(tracking?.dailyAccess ?? []),
+        lastAccessDate,
+        accessedToday: lastAccessDate === today,
+        totalDays: new Set(tracking?.dailyAccess ?? []).size,
+        nextMilestone: STREAK_MILESTONES.find(m => m > currentStreak) ?? null,
+      },
+    })
+  })
+
+  // GET /users/:id/achievements - unlocked badges plus progress towards the locked ones
+  fastify.get('/:id/achievements', {
+    ...authHooks,
+    schema: { tags: ['Users'], summary: 'Get user achievements' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } })
+    if (!user) throw new NotFoundError('User', id)
+
+    const [unlocks, locked] = await Promise.all([
+      prisma.userAchievement.findMany({
+        where: { userId: id },
+        orderBy: { unlockedAt: 'desc' },
+        include: { achievement: true },
+      }),
+      prisma.achievement.findMany({
+        where: { isActive: true, unlocks: { none: { userId: id } } },
+        orderBy: [{ rule: 'asc' }, { threshold: 'asc' }],
+      }),
+    ])
+
+    const metrics = new Map<string, number>()
+    for (const rule of new Set(locked.map(a => a.rule))) {
+      metrics.set(rule, await getAchievementMetric(id, rule))
+    }
+
+    return reply.send({
+      data: {
+        unlocked: unlocks.map(u => ({ ...u.achievement, unlockedAt: u.unlockedAt })),
+        locked: locked.map(a => ({
+          ...a,
+          current: Math.min(metrics.get(a.rule) ?? 0, a.threshold),
+        })),
+      },
+    })
+  })
+
+  // GET /users/:id/xp-ledger - paginated XP/stars ledger
+  fastify.get('/:id/xp-ledger', {
+    ...authHooks,
+    schema: { tags: ['Users'], summary: 'Get XP/stars ledger entries' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const query = z.object({
+      page: z.coerce.number().optional(),
+      limit: z.coerce.number().optional(),
+      action: z.string().optional(),
+      sourceType: z.string().optional(),
+      sourceId: z.string().optional(),
+      from: z.string().datetime().optional(),
+      to: z.string().datetime().optional(),
+    }).parse(request.query)
+
+    if (request.user.id !== id && request.user.role === 'colaborador') {
+      throw new ForbiddenError('Cannot access ledger of another user')
+    }
+
+    const { skip, take, page, limit } = getPaginationParams(query)
+    const where: any = { userId: id }
+    if (query.action) where.action = query.action
+    if (query.sourceType) where.sourceType = query.sourceType
+    if (query.sourceId) where.sourceId = query.sourceId
+    if (query.from || query.to) {
+      where.createdAt = {}
+      if (query.from) where.createdAt.gte = new Date(query.from)
+      if (query.to) where.createdAt.lte = new Date(query.to)
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.xpLedgerEntry.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.xpLedgerEntry.count({ where }),
+    ])
+
+    return reply.send({ data: entries, meta: buildPaginationMeta(total, page, limit) })
+  })
+
+  // POST /users/:id/xp-ledger/rebuild (super_admin) - recompute balances from the ledger
+  fastify.post('/:id/xp-ledger/rebuild', {
+    preHandler: [authenticate, authorize(['super_admin'])],
+    schema: { tags: ['Users'], summary: 'Rebuild xp/estrelas/nivel from ledger (super_admin)' },
+  }, async (request, reply) => {
+    const { id } = z.object({ id: z.string() }).parse(request.params)
+    const result = await rebuildUserBalanceUseCase(id, request.user.id)
+    return reply.send({ data: result })
+  })
+
   // GET /users/:id/notification-preferences
   fastify.get('/:id/notification-preferences', {
     ...authHooks,
@@ -0,0 +1,80 @@
+import { env } from '../../config/env.js'
+import { isValidTimeZone } from './timezone.js'
+
+export { isValidTimeZone }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The user's IANA timezone, falling back to the organization default (APP_TIMEZONE).
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : env.APP_TIMEZONE
+}
+
+/**
+ * Calendar day ("YYYY-MM-DD") of an instant in the given IANA timezone.
+ */
+export function toLocalDateString(date: Date, timeZone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date)
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date).map(p => [p.type, p.value]),
+  )
+  const asUtc = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second),
+  )
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Instant at which a calendar day ("YYYY-MM-DD") starts in the given timezone.
+ */
+export function startOfLocalDay(day: string, timeZone: string): Date {
+  const utcMidnight = new Date(`${day}T00:00:00Z`)
+  return new Date(utcMidnight.getTime() - getTimeZoneOffsetMs(utcMidnight, timeZone))
+}
+
+// 0=Sunday ... 6=Saturday, matching DailyMission.diasAtivos
+export function getDayOfWeek(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay()
+}
+
+export function addDays(day: string, days: number): string {
+  const time = Date.parse(`${day}T00:00:00Z`) + days * DAY_MS
+  return new Date(time).toISOString().split('T')[0]
+}
+
+// Longest run of consecutive "YYYY-MM-DD" days
+export function longestStreak(days: string[]): number {
+  const sorted = [...new Set(days)].sort()
+  let best = 0
+  let run = 0
+  let previous: number | null = null
+  for (const day of sorted) {
+    const time = Date.parse(`${day}T00:00:00Z`)
+    run = previous !== null && time - previous === DAY_MS ? run + 1 : 1
+    best = Math.max(best, run)
+    previous = time
+  }
+  return best
+}
@@ -1,3 +1,23 @@
+export interface LevelTitle {
+  level: number // first level carrying this title
+  title: string
+  badge?: string | null
+}
+
+/**
+ * Level progression. `thresholds` mode uses explicit cumulative XP per level and keeps
+ * growing by the last gap after the list ends; `formula` mode uses
+ * round(baseXp * (level - 1) ^ exponent). maxLevel = null means no cap.
+ */
+export interface LevelCurve {
+  mode: 'thresholds' | 'formula'
+  thresholds: number[]
+  baseXp: number
+  exponent: number
+  maxLevel: number | null
+  titles: LevelTitle[]
+}
+
 // XP required to reach each level (cumulative thresholds)
 const LEVEL_THRESHOLDS = [
   0,     // Level 1 start
@@ -12,30 +32,85 @@ const LEVEL_THRESHOLDS = [
   23000, // Level 10
 ]
 
-export function calculateLevel(xp: number): number {
-  let level = 1
-  for (let i = 1; i < LEVEL_THRESHOLDS.length; i++) {
-    if (xp >= LEVEL_THRESHOLDS[i]) {
-      level = i + 1
-    } else {
-      break
-    }
+export const DEFAULT_LEVEL_CURVE: LevelCurve = {
+  mode: 'thresholds',
+  thresholds: LEVEL_THRESHOLDS,
+  baseXp: 500,
+  exponent: 1.5,
+  maxLevel: null,
+  titles: [],
+}
+
+/**
+ * Cumulative XP needed to reach a level (level 1 = 0).
+ */
+export function getLevelThreshold(level: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number {
+  if (level <= 1) return 0
+
+  if (curve.mode === 'formula') {
+    return Math.round(curve.baseXp * Math.pow(level - 1, curve.exponent))
+  }
+
+  const { thresholds } = curve
+  if (level <= thresholds.length) return thresholds[level - 1]
+
+  const last = thresholds[thresholds.length - 1]
+  const step = thresholds.length > 1 ? last - thresholds[thresholds.length - 2] : 5000
+  return last + step * (level - thresholds.length)
+}
+
+// Upper bound for uncapped curves whose thresholds stop growing (never reached by valid curves)
+const LEVEL_SEARCH_LIMIT = 2 ** 40
+
+/**
+ * Highest level whose threshold the XP reaches. Thresholds grow with the level, so the
+ * level is found by doubling an upper bound and then binary searching below it.
+ */
+export function calculateLevel(xp: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number {
+  const cap = curve.maxLevel ?? LEVEL_SEARCH_LIMIT
+  if (cap <= 1 || xp < getLevelThreshold(2, curve)) return 1
+
+  // Invariant: threshold(low) <= xp, and high is past the answer (or the cap itself)
+  let low = 2
+  let high = 4
+  while (high < cap && xp >= getLevelThreshold(high, curve)) {
+    low = high
+    high *= 2
+  }
+  high = Math.min(high, cap)
+  if (xp >= getLevelThreshold(high, curve)) return high
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2)
+    if (xp >= getLevelThreshold(mid, curve)) low = mid
+    else high = mid
+  }
+  return low
+}
+
+export function calculateXpForNextLevel(currentLevel: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number {
+  if (curve.maxLevel !== null && currentLevel >= curve.maxLevel) {
+    // Max level reached - nothing left to earn
+    return getLevelThreshold(curve.maxLevel, curve)
   }
-  return level
+  return getLevelThreshold(currentLevel + 1, curve)
 }
 
-export function calculateXpForNextLevel(currentLevel: number): number {
-  const nextLevelIndex = currentLevel // index = level (since LEVEL_THRESHOLDS[0] = level 1)
-  if (nextLevelIndex >= LEVEL_THRESHOLDS.length) {
-    // Max level reached
-    return LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 1] + 5000
+export function getLevelTitle(level: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): LevelTitle | null {
+  let match: LevelTitle | null = null
+  for (const title of curve.titles) {
+    if (title.level <= level && (!match || title.level > match.level)) match = title
   }
-  return LEVEL_THRESHOLDS[nextLevelIndex]
+  return match
 }
 
-export function checkLevelUp(oldXp: number, newXp: number): { leveledUp: boolean; oldLevel: number; newLevel: number } {
-  const oldLevel = calculateLevel(oldXp)
-  const newLevel = calculateLevel(newXp)
+export function checkLevelUp(
+  oldXp: number,
+  newXp: number,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE,
+): { leveledUp: boolean; oldLevel: number; newLevel: number } {
+  const oldLevel = calculateLevel(oldXp, curve)
+  const newLevel = calculateLevel(newXp, curve)
   return {
     leveledUp: newLevel > oldLevel,
     oldLevel,
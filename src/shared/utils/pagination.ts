@@ -30,3 +30,18 @@ export function buildPaginationMeta(total: number, page: number, limit: number):
     hasPrevPage: page > 1,
   }
 }
+
+/**
+ * Opaque cursor for keyset pagination (base64url JSON).
+ */
+export function encodeCursor(payload: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+export function decodeCursor<T>(cursor: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as T
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,9 @@
+// Kept apart from date.ts, which reads env: config/env.ts validates APP_TIMEZONE with it
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ValidationError } from '../../../src/shared/errors/app-error.js'
+import { encodeCursor } from '../../../src/shared/utils/pagination.js'
+import { listFeedPostIdsUseCase, scoreFeedPost } from '../../../src/application/feed/feed-ranking.usecase.js'
+
+const prismaMock = vi.hoisted(() => ({
+  user: { findUniqueOrThrow: vi.fn(), findMany: vi.fn() },
+  feedPost: { findMany: vi.fn() },
+}))
+
+vi.mock('../../../src/infrastructure/database/prisma.client.js', () => ({ prisma: prismaMock }))
+
+const viewer = { id: 'viewer', role: 'colaborador' as const, managerId: 'gestor', departamento: 'Vendas' }
+const now = new Date('2026-10-19T12:00:00Z')
+
+function post(overrides: Partial<Parameters<typeof scoreFeedPost>[0]> = {}) {
+  return {
+    userId: 'author',
+    createdAt: now,
+    reactions: 0,
+    comments: 0,
+    author: { managerId: 'other-gestor', departamento: 'Financeiro' },
+    ...overrides,
+  }
+}
+
+describe('scoreFeedPost', () => {
+  it('gives a fresh post without engagement or proximity a score of 1', () => {
+    expect(scoreFeedPost(post(), viewer, now)).toBe(1)
+  })
+
+  it('halves the score every 24 hours', () => {
+    const dayOld = post({ createdAt: new Date(now.getTime() - 24 * 3_600_000) })
+    expect(scoreFeedPost(dayOld, viewer, now)).toBeCloseTo(0.5, 6)
+  })
+
+  it('ranks teammates above the department above everyone else', () => {
+    const teammate = scoreFeedPost(post({ author: { managerId: 'gestor', departamento: 'Financeiro' } }), viewer, now)
+    const department = scoreFeedPost(post({ author: { managerId: 'other-gestor', departamento: 'Vendas' } }), viewer, now)
+    const stranger = scoreFeedPost(post(), viewer, now)
+    expect(teammate).toBeGreaterThan(department)
+    expect(department).toBeGreaterThan(stranger)
+  })
+
+  it('treats the viewer\'s gestor as team', () => {
+    expect(scoreFeedPost(post({ userId: 'gestor' }), viewer, now)).toBe(2.5)
+  })
+
+  it('gives no proximity bonus to the viewer\'s own posts', () => {
+    const own = post({ userId: 'viewer', author: { managerId: 'gestor', departamento: 'Vendas' } })
+    expect(scoreFeedPost(own, viewer, now)).toBe(1)
+  })
+
+  it('weighs comments double', () => {
+    expect(scoreFeedPost(post({ comments: 1 }), viewer, now)).toBe(scoreFeedPost(post({ reactions: 2 }), viewer, now))
+  })
+})
+
+describe('listFeedPostIdsUseCase cursors', () => {
+  beforeEach(() => {
+    prismaMock.user.findUniqueOrThrow.mockResolvedValue(viewer)
+    prismaMock.feedPost.findMany.mockReset()
+  })
+
+  const input = { viewerId: 'viewer', filters: {}, limit: 2 }
+
+  it('continues the recent order from the returned cursor', async () => {
+    prismaMock.feedPost.findMany.mockResolvedValueOnce([
+      { id: 'c', isPinned: false, createdAt: new Date('2026-10-19T10:00:00Z') },
+      { id: 'b', isPinned: false, createdAt: new Date('2026-10-19T09:00:00Z') },
+      { id: 'a', isPinned: false, createdAt: new Date('2026-10-19T08:00:00Z') },
+    ])
+    const first = await listFeedPostIdsUseCase({ ...input, order: 'recent' })
+    expect(first.ids).toEqual(['c', 'b'])
+    expect(first.nextCursor).not.toBeNull()
+
+    prismaMock.feedPost.findMany.mockResolvedValueOnce([
+      { id: 'a', isPinned: false, createdAt: new Date('2026-10-19T08:00:00Z') },
+    ])
+    const second = await listFeedPostIdsUseCase({ ...input, order: 'recent', cursor: first.nextCursor! })
+    expect(second).toEqual({ ids: ['a'], nextCursor: null })
+
+    const { where } = prismaMock.feedPost.findMany.mock.calls[1][0]
+    expect(JSON.stringify(where)).toContain('"id":{"lt":"b"}')
+  })
+
+  it('continues the relevance order from the returned cursor', async () => {
+    const candidates = ['a', 'b', 'c'].map((id, i) => ({
+      id,
+      userId: 'author',
+      isPinned: false,
+      createdAt: new Date(Date.now() - 60_000),
+      user: { managerId: null, departamento: 'Financeiro' },
+      _count: { reactions: 3 - i, comments: 0 },
+    }))
+    prismaMock.feedPost.findMany.mockResolvedValue(candidates)
+
+    const first = await listFeedPostIdsUseCase({ ...input, order: 'relevance' })
+    expect(first.ids).toEqual(['a', 'b'])
+    const second = await listFeedPostIdsUseCase({ ...input, order: 'relevance', cursor: first.nextCursor! })
+    expect(second).toEqual({ ids: ['c'], nextCursor: null })
+  })
+
+  it.each([
+    ['not base64 json', 'not-a-cursor'],
+    ['an empty object', encodeCursor({})],
+    ['a number', Buffer.from('1').toString('base64url')],
+    ['a bad date', encodeCursor({ pinned: false, createdAt: 'yesterday', id: 'a' })],
+  ])('rejects %s as a recent cursor', async (_, cursor) => {
+    await expect(listFeedPostIdsUseCase({ ...input, order: 'recent', cursor })).rejects.toBeInstanceOf(ValidationError)
+    expect(prismaMock.feedPost.findMany).not.toHaveBeenCalled()
+  })
+
+  it('rejects a recent cursor used for the relevance order', async () => {
+    const cursor = encodeCursor({ pinned: false, createdAt: now.toISOString(), id: 'a' })
+    await expect(listFeedPostIdsUseCase({ ...input, order: 'relevance', cursor })).rejects.toBeInstanceOf(ValidationError)
+  })
+})
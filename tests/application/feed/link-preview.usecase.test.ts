@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { extractFirstUrl, isPrivateAddress } from '../../../src/application/feed/link-preview.usecase.js'
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.10', '169.254.169.254', '100.64.0.1',
+    '0.0.0.0', '198.18.0.1', '198.19.255.255', '224.0.0.1', '255.255.255.255',
+  ])('blocks IPv4 %s', address => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each([
+    '::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1',
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '64:ff9b::a9fe:a9fe',
+  ])('blocks IPv6 %s', address => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it('blocks the host produced by URL parsing of a mapped metadata address', () => {
+    const host = new URL('http://[::ffff:169.254.169.254]/').hostname.replace(/^\[|\]$/g, '')
+    expect(isPrivateAddress(host)).toBe(true)
+  })
+
+  it.each(['8.8.8.8', '1.1.1.1', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+    'allows public address %s',
+    address => {
+      expect(isPrivateAddress(address)).toBe(false)
+    },
+  )
+
+  it('treats unparseable input as private', () => {
+    expect(isPrivateAddress('not-an-ip')).toBe(true)
+  })
+})
+
+describe('extractFirstUrl', () => {
+  it('drops trailing sentence punctuation', () => {
+    expect(extractFirstUrl('veja https://example.com/a?b=1).')).toBe('https://example.com/a?b=1')
+  })
+
+  it('returns null without a link', () => {
+    expect(extractFirstUrl('sem link aqui')).toBeNull()
+  })
+})
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MAX_MENTIONS_PER_CONTENT,
+  getMentionHandle,
+  parseMentionHandles,
+  resolveMentions,
+} from '../../../src/application/mentions/mentions.usecase.js'
+
+const prismaMock = vi.hoisted(() => ({
+  user: { findMany: vi.fn() },
+}))
+
+vi.mock('../../../src/infrastructure/database/prisma.client.js', () => ({ prisma: prismaMock }))
+vi.mock('../../../src/infrastructure/queue/bullmq.client.js', () => ({ enqueueNotification: vi.fn() }))
+
+describe('getMentionHandle', () => {
+  it('is the lowercased local part of the email', () => {
+    expect(getMentionHandle('Maria.Silva@engageai.com')).toBe('maria.silva')
+  })
+})
+
+describe('parseMentionHandles', () => {
+  it('extracts lowercased handles', () => {
+    expect(parseMentionHandles('Valeu @Maria.Silva e @joao_p!')).toEqual(['maria.silva', 'joao_p'])
+  })
+
+  it('drops a trailing dot that ends the sentence', () => {
+    expect(parseMentionHandles('Obrigado, @ana.carolina.')).toEqual(['ana.carolina'])
+  })
+
+  it('ignores email addresses and doubled @', () => {
+    expect(parseMentionHandles('Escreva para maria@engageai.com ou @@joao')).toEqual([])
+  })
+
+  it('deduplicates handles regardless of case', () => {
+    expect(parseMentionHandles('@ana @ANA @Ana')).toEqual(['ana'])
+  })
+
+  it('keeps at most MAX_MENTIONS_PER_CONTENT handles', () => {
+    const content = Array.from({ length: MAX_MENTIONS_PER_CONTENT + 5 }, (_, i) => `@user${i}`).join(' ')
+    const handles = parseMentionHandles(content)
+    expect(handles).toHaveLength(MAX_MENTIONS_PER_CONTENT)
+    expect(handles[0]).toBe('user0')
+  })
+
+  it('returns nothing without mentions', () => {
+    expect(parseMentionHandles('Sem menções aqui @')).toEqual([])
+  })
+})
+
+describe('resolveMentions', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  it('skips the query when there are no handles', async () => {
+    await expect(resolveMentions('nada')).resolves.toEqual([])
+    expect(prismaMock.user.findMany).not.toHaveBeenCalled()
+  })
+
+  it('ignores handles shared by several users', async () => {
+    prismaMock.user.findMany.mockResolvedValue([
+      { id: 'u1', email: 'ana@engageai.com' },
+      { id: 'u2', email: 'ana@parceiro.com' },
+      { id: 'u3', email: 'joao@engageai.com' },
+    ])
+    await expect(resolveMentions('@ana @joao')).resolves.toEqual(['u3'])
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest'
+import { findBannedWords } from '../../../src/application/moderation/moderation.usecase.js'
+
+vi.mock('../../../src/infrastructure/database/prisma.client.js', () => ({ prisma: {} }))
+vi.mock('../../../src/infrastructure/queue/bullmq.client.js', () => ({ enqueueNotification: vi.fn() }))
+
+describe('findBannedWords', () => {
+  it('matches whole words ignoring case and accents', () => {
+    expect(findBannedWords('Que PALAVRÃO feio', ['palavrao'])).toEqual(['palavrao'])
+    expect(findBannedWords('que palavrao feio', ['Palavrão'])).toEqual(['Palavrão'])
+  })
+
+  it('does not match inside other words', () => {
+    expect(findBannedWords('classificação', ['class'])).toEqual([])
+  })
+
+  it('matches phrases across punctuation and extra spaces', () => {
+    expect(findBannedWords('isso é muito,   ruim!', ['muito ruim'])).toEqual(['muito ruim'])
+  })
+
+  it('ignores empty banned entries', () => {
+    expect(findBannedWords('qualquer texto', ['', '  ', '!!'])).toEqual([])
+  })
+
+  it('returns every banned word found', () => {
+    expect(findBannedWords('foo bar baz', ['baz', 'qux', 'foo'])).toEqual(['baz', 'foo'])
+  })
+})
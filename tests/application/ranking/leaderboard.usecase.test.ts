@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getLeaderboardWindow, moveUserLeaderboardScopes } from '../../../src/application/ranking/leaderboard.usecase.js'
+
+const { prismaMock, pipelineMock } = vi.hoisted(() => ({
+  prismaMock: { xpLedgerEntry: { aggregate: vi.fn() } },
+  pipelineMock: { zrem: vi.fn(), zadd: vi.fn(), expireat: vi.fn(), exec: vi.fn() },
+}))
+
+vi.mock('../../../src/config/env.js', () => ({ env: { APP_TIMEZONE: 'America/Sao_Paulo' } }))
+vi.mock('../../../src/infrastructure/database/prisma.client.js', () => ({ prisma: prismaMock }))
+vi.mock('../../../src/infrastructure/cache/redis.client.js', () => ({
+  redis: { pipeline: () => pipelineMock },
+  LEADERBOARD_KEY: 'lb:global',
+  LEADERBOARD_DEPT_PREFIX: 'lb:dept:',
+  LEADERBOARD_TEAM_PREFIX: 'lb:team:',
+  LEADERBOARD_PERIOD_PREFIX: 'lb:period:',
+}))
+
+describe('getLeaderboardWindow', () => {
+  it('starts the week on Monday at local midnight', () => {
+    // Wednesday 2026-10-21 in Sao Paulo
+    const window = getLeaderboardWindow('week', new Date('2026-10-21T15:00:00Z'))
+    expect(window.startDay).toBe('2026-10-19')
+    expect(window.start.toISOString()).toBe('2026-10-19T03:00:00.000Z')
+    expect(window.end.toISOString()).toBe('2026-10-26T03:00:00.000Z')
+  })
+
+  it('keeps Sunday night in the week that is ending even when it is already Monday in UTC', () => {
+    // Sunday 2026-10-25 22:30 in Sao Paulo
+    const window = getLeaderboardWindow('week', new Date('2026-10-26T01:30:00Z'))
+    expect(window.startDay).toBe('2026-10-19')
+  })
+
+  it('covers the local calendar month', () => {
+    const window = getLeaderboardWindow('month', new Date('2026-10-19T12:00:00Z'))
+    expect(window.startDay).toBe('2026-10-01')
+    expect(window.start.toISOString()).toBe('2026-10-01T03:00:00.000Z')
+    expect(window.end.toISOString()).toBe('2026-11-01T03:00:00.000Z')
+  })
+
+  it('rolls December over into January of the next year', () => {
+    const window = getLeaderboardWindow('month', new Date('2026-12-31T12:00:00Z'))
+    expect(window.startDay).toBe('2026-12-01')
+    expect(window.end.toISOString()).toBe('2027-01-01T03:00:00.000Z')
+  })
+
+  it('uses the local month at the UTC month boundary', () => {
+    // Still 2026-10-31 in Sao Paulo
+    const window = getLeaderboardWindow('month', new Date('2026-11-01T02:00:00Z'))
+    expect(window.startDay).toBe('2026-10-01')
+  })
+})
+
+describe('moveUserLeaderboardScopes', () => {
+  const now = new Date('2026-10-21T15:00:00Z')
+  const user = { id: 'u1', xp: 500, role: 'colaborador', isActive: true }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.xpLedgerEntry.aggregate.mockResolvedValue({ _sum: { xpDelta: 40 } })
+  })
+
+  it('removes the user from the old scopes and adds them to the new ones', async () => {
+    await moveUserLeaderboardScopes({
+      user,
+      before: { departamento: 'Vendas', managerId: 'g1' },
+      after: { departamento: 'Vendas', managerId: 'g2' },
+      now,
+    })
+
+    expect(pipelineMock.zrem.mock.calls).toEqual([
+      ['lb:team:g1', 'u1'],
+      ['lb:period:week:2026-10-19:team:g1', 'u1'],
+      ['lb:period:month:2026-10-01:team:g1', 'u1'],
+    ])
+    expect(pipelineMock.zadd.mock.calls).toEqual([
+      ['lb:team:g2', 500, 'u1'],
+      ['lb:period:week:2026-10-19:team:g2', 40, 'u1'],
+      ['lb:period:month:2026-10-01:team:g2', 40, 'u1'],
+    ])
+    expect(pipelineMock.exec).toHaveBeenCalledOnce()
+  })
+
+  it('only removes an unranked user', async () => {
+    await moveUserLeaderboardScopes({
+      user: { ...user, role: 'gestor' },
+      before: { departamento: 'Vendas', managerId: null },
+      after: { departamento: 'Financeiro', managerId: null },
+      now,
+    })
+
+    expect(pipelineMock.zrem).toHaveBeenCalledTimes(3)
+    expect(pipelineMock.zadd).not.toHaveBeenCalled()
+  })
+
+  it('does nothing when the scopes did not change', async () => {
+    await moveUserLeaderboardScopes({
+      user,
+      before: { departamento: 'Vendas', managerId: 'g1' },
+      after: { departamento: 'Vendas', managerId: 'g1' },
+      now,
+    })
+
+    expect(pipelineMock.exec).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_LEVEL_CURVE,
+  calculateLevel,
+  calculateXpForNextLevel,
+  checkLevelUp,
+  getLevelThreshold,
+  type LevelCurve,
+} from '../../../src/shared/utils/level-calculator.js'
+
+const formula = (overrides: Partial<LevelCurve> = {}): LevelCurve => ({
+  ...DEFAULT_LEVEL_CURVE,
+  mode: 'formula',
+  baseXp: 500,
+  exponent: 1.5,
+  ...overrides,
+})
+
+// Reference implementation: walk the levels one by one
+function linearLevel(xp: number, curve: LevelCurve): number {
+  let level = 1
+  while ((curve.maxLevel === null || level < curve.maxLevel) && xp >= getLevelThreshold(level + 1, curve)) level++
+  return level
+}
+
+describe('calculateLevel', () => {
+  it('follows the default threshold table', () => {
+    expect(calculateLevel(0)).toBe(1)
+    expect(calculateLevel(499)).toBe(1)
+    expect(calculateLevel(500)).toBe(2)
+    expect(calculateLevel(1499)).toBe(2)
+    expect(calculateLevel(23000)).toBe(10)
+  })
+
+  it('keeps growing by the last gap after the table ends', () => {
+    expect(getLevelThreshold(11)).toBe(28000)
+    expect(calculateLevel(27999)).toBe(10)
+    expect(calculateLevel(28000)).toBe(11)
+  })
+
+  it('stops at maxLevel', () => {
+    expect(calculateLevel(1_000_000, { ...DEFAULT_LEVEL_CURVE, maxLevel: 5 })).toBe(5)
+    expect(calculateLevel(500, { ...DEFAULT_LEVEL_CURVE, maxLevel: 2 })).toBe(2)
+  })
+
+  it.each([
+    ['default table', DEFAULT_LEVEL_CURVE],
+    ['formula', formula()],
+    ['steep formula', formula({ baseXp: 10, exponent: 3 })],
+    ['flat formula', formula({ baseXp: 1, exponent: 1 })],
+    ['capped formula', formula({ baseXp: 7, exponent: 1.2, maxLevel: 40 })],
+  ])('matches a level-by-level walk for the %s curve', (_, curve) => {
+    for (let xp = 0; xp < 30_000; xp += 37) {
+      expect(calculateLevel(xp, curve)).toBe(linearLevel(xp, curve))
+    }
+    for (let level = 2; level < 60; level++) {
+      const threshold = getLevelThreshold(level, curve)
+      expect(calculateLevel(threshold, curve)).toBe(linearLevel(threshold, curve))
+      expect(calculateLevel(threshold - 1, curve)).toBe(linearLevel(threshold - 1, curve))
+    }
+  })
+
+  it('handles huge XP on a flat uncapped curve without walking every level', () => {
+    const curve = formula({ baseXp: 1, exponent: 1 })
+    expect(calculateLevel(2_000_000_000, curve)).toBe(2_000_000_001)
+  })
+})
+
+describe('calculateXpForNextLevel', () => {
+  it('returns the next threshold, or the max level threshold once reached', () => {
+    expect(calculateXpForNextLevel(1)).toBe(500)
+    expect(calculateXpForNextLevel(5, { ...DEFAULT_LEVEL_CURVE, maxLevel: 5 })).toBe(5000)
+  })
+})
+
+describe('checkLevelUp', () => {
+  it('reports level changes across an award', () => {
+    expect(checkLevelUp(400, 1600)).toEqual({ leveledUp: true, oldLevel: 1, newLevel: 3 })
+    expect(checkLevelUp(600, 700)).toEqual({ leveledUp: false, oldLevel: 2, newLevel: 2 })
+  })
+})